@@ -0,0 +1,58 @@
+import { Hono } from 'hono';
+import type { Bindings } from './index.ts';
+import { queryAuditLog, getAccountSettings, setAccountSettings } from './db/index.ts';
+import { hashToken } from './lib/crypto.ts';
+
+// Operator endpoints, authenticated with the ADMIN_TOKEN secret. Disabled when it isn't set.
+export const admin = new Hono<{ Bindings: Bindings }>();
+
+admin.use('*', async (c, next) => {
+  const authorization = c.req.header('authorization') ?? '';
+  const expected = c.env.ADMIN_TOKEN;
+
+  // Compare digests so the check doesn't leak the token through timing
+  if (!expected || (await hashToken(authorization)) !== (await hashToken(`Bearer ${expected}`))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  await next();
+});
+
+// GET /admin/audit-log?restaurant=&account=&tool=&reservationId=&limit=
+admin.get('/audit-log', async (c) => {
+  const reservationId = c.req.query('reservationId');
+  const limit = Number(c.req.query('limit') ?? 50);
+
+  const records = await queryAuditLog(c.env.DB, {
+    account: c.req.query('account'),
+    restaurant: c.req.query('restaurant'),
+    tool: c.req.query('tool'),
+    reservationId: reservationId ? Number(reservationId) : undefined,
+    limit: Number.isInteger(limit) ? Math.min(Math.max(limit, 1), 500) : 50,
+  });
+
+  return c.json({ records });
+});
+
+// GET /admin/accounts/:account/settings
+admin.get('/accounts/:account/settings', async (c) => {
+  return c.json(await getAccountSettings(c.env.DB, c.req.param('account')));
+});
+
+// PUT /admin/accounts/:account/settings  {"requireConfirmation": true}
+admin.put('/accounts/:account/settings', async (c) => {
+  let body: { requireConfirmation?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: 'Body must be JSON' }, 400);
+  }
+
+  if (typeof body.requireConfirmation !== 'boolean') {
+    return c.json({ error: 'requireConfirmation must be a boolean' }, 400);
+  }
+
+  const account = c.req.param('account');
+  await setAccountSettings(c.env.DB, account, { requireConfirmation: body.requireConfirmation });
+  return c.json(await getAccountSettings(c.env.DB, account));
+});
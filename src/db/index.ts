@@ -1,19 +1,36 @@
-import { encrypt, decrypt } from '../lib/crypto.ts';
+import { encrypt, decrypt, currentKeyPrefix, type Keyring } from '../lib/crypto.ts';
 
-export async function getToken(db: D1Database, cacheKey: string, encryptionKey: string): Promise<string | null> {
+export interface CachedToken {
+  token: string;
+  // Keyed hash of the credentials the token was obtained with
+  fingerprint: string;
+  // Unix seconds, from the JWT `exp` claim; null if the token doesn't carry one
+  expiresAt: number | null;
+}
+
+export async function getToken(db: D1Database, cacheKey: string, keyring: Keyring): Promise<CachedToken | null> {
   const row = await db
-    .prepare('SELECT token FROM tokens WHERE cache_key = ?')
+    .prepare('SELECT token, fingerprint, expires_at FROM tokens WHERE cache_key = ?')
     .bind(cacheKey)
-    .first<{ token: string }>();
+    .first<{ token: string; fingerprint: string; expires_at: number | null }>();
   if (!row) return null;
-  return decrypt(row.token, encryptionKey);
+
+  // A row under a retired key is just a cache miss
+  const token = await decrypt(row.token, keyring).catch(() => null);
+  if (token === null) return null;
+
+  return {
+    token,
+    fingerprint: row.fingerprint,
+    expiresAt: row.expires_at,
+  };
 }
 
-export async function setToken(db: D1Database, cacheKey: string, token: string, encryptionKey: string): Promise<void> {
-  const encrypted = await encrypt(token, encryptionKey);
+export async function setToken(db: D1Database, cacheKey: string, entry: CachedToken, keyring: Keyring): Promise<void> {
+  const encrypted = await encrypt(entry.token, keyring);
   await db
-    .prepare('INSERT OR REPLACE INTO tokens (cache_key, token) VALUES (?, ?)')
-    .bind(cacheKey, encrypted)
+    .prepare('INSERT OR REPLACE INTO tokens (cache_key, token, fingerprint, expires_at) VALUES (?, ?, ?, ?)')
+    .bind(cacheKey, encrypted, entry.fingerprint, entry.expiresAt)
     .run();
 }
 
@@ -23,3 +40,568 @@ export async function deleteToken(db: D1Database, cacheKey: string): Promise<voi
     .bind(cacheKey)
     .run();
 }
+
+// Re-encrypts rows still under a previous key, a page at a time.
+// Tokens that no key can decrypt are dropped, since they are only a cache; such grants are left alone.
+export async function reencryptAll(db: D1Database, keyring: Keyring, pageSize = 100): Promise<void> {
+  const prefix = await currentKeyPrefix(keyring);
+
+  for (let after = ''; ; ) {
+    const { results } = await db
+      .prepare(
+        'SELECT cache_key, token FROM tokens WHERE cache_key > ? AND substr(token, 1, ?) != ? ORDER BY cache_key LIMIT ?'
+      )
+      .bind(after, prefix.length, prefix, pageSize)
+      .all<{ cache_key: string; token: string }>();
+
+    for (const row of results) {
+      const token = await decrypt(row.token, keyring).catch(() => null);
+      if (token === null) {
+        await deleteToken(db, row.cache_key);
+        continue;
+      }
+      await db
+        .prepare('UPDATE tokens SET token = ? WHERE cache_key = ?')
+        .bind(await encrypt(token, keyring), row.cache_key)
+        .run();
+    }
+
+    if (results.length < pageSize) break;
+    after = results[results.length - 1].cache_key;
+  }
+
+  for (let after = ''; ; ) {
+    const { results } = await db
+      .prepare('SELECT id, password FROM oauth_grants WHERE id > ? AND substr(password, 1, ?) != ? ORDER BY id LIMIT ?')
+      .bind(after, prefix.length, prefix, pageSize)
+      .all<{ id: string; password: string }>();
+
+    for (const row of results) {
+      const password = await decrypt(row.password, keyring).catch(() => null);
+      if (password === null) continue;
+      await db
+        .prepare('UPDATE oauth_grants SET password = ? WHERE id = ?')
+        .bind(await encrypt(password, keyring), row.id)
+        .run();
+    }
+
+    if (results.length < pageSize) break;
+    after = results[results.length - 1].id;
+  }
+}
+
+// Removes every row that can no longer be used: Meitre tokens, OAuth codes and tokens, OAuth grants
+// left without either (with the passwords they hold), MCP sessions, cached responses, idempotency keys
+// past their retention and confirmation tokens
+export async function purgeExpired(
+  db: D1Database,
+  sessionTtl: number,
+  idempotencyTtl: number,
+  codeTtl: number
+): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  await db.batch([
+    db.prepare('DELETE FROM tokens WHERE expires_at < ?').bind(now),
+    db.prepare('DELETE FROM oauth_codes WHERE expires_at < ?').bind(now),
+    db.prepare('DELETE FROM oauth_tokens WHERE expires_at < ?').bind(now),
+    // Grants younger than a code's lifetime may still be waiting for theirs to be issued or exchanged
+    db
+      .prepare(
+        `DELETE FROM oauth_grants WHERE created_at < ?
+           AND NOT EXISTS (SELECT 1 FROM oauth_tokens WHERE grant_id = oauth_grants.id)
+           AND NOT EXISTS (SELECT 1 FROM oauth_codes WHERE grant_id = oauth_grants.id)`
+      )
+      .bind(now - codeTtl),
+    db.prepare('DELETE FROM mcp_sessions WHERE created_at < ?').bind(now - sessionTtl),
+    db.prepare('DELETE FROM response_cache WHERE expires_at < ?').bind(now),
+    db.prepare('DELETE FROM idempotency_keys WHERE created_at < ?').bind(now - idempotencyTtl),
+    db.prepare('DELETE FROM confirmations WHERE expires_at < ?').bind(now),
+  ]);
+}
+
+// --- OAuth ---
+
+export interface OAuthClient {
+  clientId: string;
+  clientName: string | null;
+  redirectUris: string[];
+}
+
+export interface OAuthGrant {
+  id: string;
+  clientId: string;
+  username: string;
+  password: string;
+  restaurant: string | null;
+}
+
+export interface OAuthCode {
+  grantId: string;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  expiresAt: number;
+}
+
+export interface OAuthToken {
+  grantId: string;
+  clientId: string;
+  type: 'access' | 'refresh';
+  expiresAt: number;
+}
+
+export async function createClient(db: D1Database, client: OAuthClient): Promise<void> {
+  await db
+    .prepare('INSERT INTO oauth_clients (client_id, client_name, redirect_uris) VALUES (?, ?, ?)')
+    .bind(client.clientId, client.clientName, JSON.stringify(client.redirectUris))
+    .run();
+}
+
+export async function getClient(db: D1Database, clientId: string): Promise<OAuthClient | null> {
+  const row = await db
+    .prepare('SELECT client_id, client_name, redirect_uris FROM oauth_clients WHERE client_id = ?')
+    .bind(clientId)
+    .first<{ client_id: string; client_name: string | null; redirect_uris: string }>();
+  if (!row) return null;
+  return {
+    clientId: row.client_id,
+    clientName: row.client_name,
+    redirectUris: JSON.parse(row.redirect_uris),
+  };
+}
+
+export async function createGrant(db: D1Database, grant: OAuthGrant, keyring: Keyring): Promise<void> {
+  const encrypted = await encrypt(grant.password, keyring);
+  await db
+    .prepare('INSERT INTO oauth_grants (id, client_id, username, password, restaurant) VALUES (?, ?, ?, ?, ?)')
+    .bind(grant.id, grant.clientId, grant.username, encrypted, grant.restaurant)
+    .run();
+}
+
+// Returns null as well when the grant was encrypted under a key that is no longer configured
+export async function getGrant(db: D1Database, grantId: string, keyring: Keyring): Promise<OAuthGrant | null> {
+  const row = await db
+    .prepare('SELECT id, client_id, username, password, restaurant FROM oauth_grants WHERE id = ?')
+    .bind(grantId)
+    .first<{ id: string; client_id: string; username: string; password: string; restaurant: string | null }>();
+  if (!row) return null;
+
+  const password = await decrypt(row.password, keyring).catch(() => null);
+  if (password === null) return null;
+
+  return {
+    id: row.id,
+    clientId: row.client_id,
+    username: row.username,
+    password,
+    restaurant: row.restaurant,
+  };
+}
+
+export async function deleteGrant(db: D1Database, grantId: string): Promise<void> {
+  await db.batch([
+    db.prepare('DELETE FROM oauth_tokens WHERE grant_id = ?').bind(grantId),
+    db.prepare('DELETE FROM oauth_codes WHERE grant_id = ?').bind(grantId),
+    db.prepare('DELETE FROM oauth_grants WHERE id = ?').bind(grantId),
+  ]);
+}
+
+export async function createCode(db: D1Database, codeHash: string, code: OAuthCode): Promise<void> {
+  await db
+    .prepare(
+      'INSERT INTO oauth_codes (code_hash, grant_id, client_id, redirect_uri, code_challenge, expires_at) VALUES (?, ?, ?, ?, ?, ?)'
+    )
+    .bind(codeHash, code.grantId, code.clientId, code.redirectUri, code.codeChallenge, code.expiresAt)
+    .run();
+}
+
+// Authorization codes are single-use: reading one deletes it
+export async function consumeCode(db: D1Database, codeHash: string): Promise<OAuthCode | null> {
+  const row = await db
+    .prepare(
+      'DELETE FROM oauth_codes WHERE code_hash = ? RETURNING grant_id, client_id, redirect_uri, code_challenge, expires_at'
+    )
+    .bind(codeHash)
+    .first<{ grant_id: string; client_id: string; redirect_uri: string; code_challenge: string; expires_at: number }>();
+  if (!row) return null;
+  return {
+    grantId: row.grant_id,
+    clientId: row.client_id,
+    redirectUri: row.redirect_uri,
+    codeChallenge: row.code_challenge,
+    expiresAt: row.expires_at,
+  };
+}
+
+export async function createOAuthToken(db: D1Database, tokenHash: string, token: OAuthToken): Promise<void> {
+  await db
+    .prepare('INSERT INTO oauth_tokens (token_hash, grant_id, client_id, type, expires_at) VALUES (?, ?, ?, ?, ?)')
+    .bind(tokenHash, token.grantId, token.clientId, token.type, token.expiresAt)
+    .run();
+}
+
+export async function getOAuthToken(db: D1Database, tokenHash: string): Promise<OAuthToken | null> {
+  const row = await db
+    .prepare('SELECT grant_id, client_id, type, expires_at FROM oauth_tokens WHERE token_hash = ?')
+    .bind(tokenHash)
+    .first<{ grant_id: string; client_id: string; type: 'access' | 'refresh'; expires_at: number }>();
+  if (!row) return null;
+  return {
+    grantId: row.grant_id,
+    clientId: row.client_id,
+    type: row.type,
+    expiresAt: row.expires_at,
+  };
+}
+
+export async function deleteOAuthToken(db: D1Database, tokenHash: string): Promise<void> {
+  await db
+    .prepare('DELETE FROM oauth_tokens WHERE token_hash = ?')
+    .bind(tokenHash)
+    .run();
+}
+
+// --- MCP sessions ---
+
+export interface McpSession {
+  id: string;
+  username: string;
+  protocolVersion: string;
+  createdAt: number;
+}
+
+export async function createSession(db: D1Database, session: Omit<McpSession, 'createdAt'>): Promise<void> {
+  await db
+    .prepare('INSERT INTO mcp_sessions (id, username, protocol_version) VALUES (?, ?, ?)')
+    .bind(session.id, session.username, session.protocolVersion)
+    .run();
+}
+
+export async function getSession(db: D1Database, sessionId: string): Promise<McpSession | null> {
+  const row = await db
+    .prepare('SELECT id, username, protocol_version, created_at FROM mcp_sessions WHERE id = ?')
+    .bind(sessionId)
+    .first<{ id: string; username: string; protocol_version: string; created_at: number }>();
+  if (!row) return null;
+  return {
+    id: row.id,
+    username: row.username,
+    protocolVersion: row.protocol_version,
+    createdAt: row.created_at,
+  };
+}
+
+export async function deleteSession(db: D1Database, sessionId: string): Promise<void> {
+  await db
+    .prepare('DELETE FROM mcp_sessions WHERE id = ?')
+    .bind(sessionId)
+    .run();
+}
+
+// --- Response cache ---
+
+export interface ResponseCacheKey {
+  account: string;
+  restaurant: string;
+  path: string;
+}
+
+export async function getCachedResponse<T>(db: D1Database, key: ResponseCacheKey): Promise<T | null> {
+  const row = await db
+    .prepare('SELECT value FROM response_cache WHERE account = ? AND restaurant = ? AND path = ? AND expires_at > ?')
+    .bind(key.account, key.restaurant, key.path, Math.floor(Date.now() / 1000))
+    .first<{ value: string }>();
+  if (!row) return null;
+  return JSON.parse(row.value) as T;
+}
+
+export async function setCachedResponse(db: D1Database, key: ResponseCacheKey, value: unknown, ttl: number): Promise<void> {
+  await db
+    .prepare('INSERT OR REPLACE INTO response_cache (account, restaurant, path, value, expires_at) VALUES (?, ?, ?, ?, ?)')
+    .bind(key.account, key.restaurant, key.path, JSON.stringify(value), Math.floor(Date.now() / 1000) + ttl)
+    .run();
+}
+
+// Drops the entries of every account for a restaurant whose path starts with `pathPrefix`
+export async function invalidateCachedResponses(db: D1Database, restaurant: string, pathPrefix: string): Promise<void> {
+  await db
+    .prepare('DELETE FROM response_cache WHERE restaurant = ? AND substr(path, 1, ?) = ?')
+    .bind(restaurant, pathPrefix.length, pathPrefix)
+    .run();
+}
+
+// --- Audit log ---
+
+export interface AuditEntry {
+  account: string;
+  restaurant: string | null;
+  tool: string;
+  reservationId: number | null;
+  arguments: unknown;
+  result: unknown | null;
+  error: string | null;
+}
+
+export interface AuditRecord extends AuditEntry {
+  id: number;
+  createdAt: number;
+}
+
+export interface AuditQuery {
+  account?: string;
+  restaurant?: string;
+  tool?: string;
+  reservationId?: number;
+  limit: number;
+}
+
+export async function insertAuditEntry(db: D1Database, entry: AuditEntry): Promise<void> {
+  await db
+    .prepare(
+      'INSERT INTO audit_log (account, restaurant, tool, reservation_id, arguments, result, error) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    )
+    .bind(
+      entry.account,
+      entry.restaurant,
+      entry.tool,
+      entry.reservationId,
+      JSON.stringify(entry.arguments),
+      entry.result === null ? null : JSON.stringify(entry.result),
+      entry.error
+    )
+    .run();
+}
+
+// Newest first
+export async function queryAuditLog(db: D1Database, query: AuditQuery): Promise<AuditRecord[]> {
+  const conditions: string[] = [];
+  const bindings: unknown[] = [];
+
+  if (query.account) {
+    conditions.push('account = ?');
+    bindings.push(query.account);
+  }
+  if (query.restaurant) {
+    conditions.push('restaurant = ?');
+    bindings.push(query.restaurant);
+  }
+  if (query.tool) {
+    conditions.push('tool = ?');
+    bindings.push(query.tool);
+  }
+  if (query.reservationId !== undefined) {
+    conditions.push('reservation_id = ?');
+    bindings.push(query.reservationId);
+  }
+
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  const { results } = await db
+    .prepare(
+      `SELECT id, account, restaurant, tool, reservation_id, arguments, result, error, created_at FROM audit_log ${where} ORDER BY id DESC LIMIT ?`
+    )
+    .bind(...bindings, query.limit)
+    .all<{
+      id: number;
+      account: string;
+      restaurant: string | null;
+      tool: string;
+      reservation_id: number | null;
+      arguments: string;
+      result: string | null;
+      error: string | null;
+      created_at: number;
+    }>();
+
+  return results.map((row) => ({
+    id: row.id,
+    account: row.account,
+    restaurant: row.restaurant,
+    tool: row.tool,
+    reservationId: row.reservation_id,
+    arguments: JSON.parse(row.arguments),
+    result: row.result === null ? null : JSON.parse(row.result),
+    error: row.error,
+    createdAt: row.created_at,
+  }));
+}
+
+// --- Idempotency keys ---
+
+export interface IdempotencyRecord {
+  tool: string;
+  requestHash: string;
+  // null while the first call is still running
+  result: unknown | null;
+  createdAt: number;
+}
+
+// Claims the key for a new call. Returns false if it was already claimed.
+export async function claimIdempotencyKey(
+  db: D1Database,
+  account: string,
+  key: string,
+  tool: string,
+  requestHash: string
+): Promise<boolean> {
+  const res = await db
+    .prepare('INSERT OR IGNORE INTO idempotency_keys (account, key, tool, request_hash) VALUES (?, ?, ?, ?)')
+    .bind(account, key, tool, requestHash)
+    .run();
+  return res.meta.changes > 0;
+}
+
+export async function getIdempotencyRecord(db: D1Database, account: string, key: string): Promise<IdempotencyRecord | null> {
+  const row = await db
+    .prepare('SELECT tool, request_hash, result, created_at FROM idempotency_keys WHERE account = ? AND key = ?')
+    .bind(account, key)
+    .first<{ tool: string; request_hash: string; result: string | null; created_at: number }>();
+  if (!row) return null;
+  return {
+    tool: row.tool,
+    requestHash: row.request_hash,
+    result: row.result === null ? null : JSON.parse(row.result),
+    createdAt: row.created_at,
+  };
+}
+
+export async function completeIdempotencyKey(db: D1Database, account: string, key: string, result: unknown): Promise<void> {
+  await db
+    .prepare('UPDATE idempotency_keys SET result = ? WHERE account = ? AND key = ?')
+    .bind(JSON.stringify(result), account, key)
+    .run();
+}
+
+export async function releaseIdempotencyKey(db: D1Database, account: string, key: string): Promise<void> {
+  await db
+    .prepare('DELETE FROM idempotency_keys WHERE account = ? AND key = ? AND result IS NULL')
+    .bind(account, key)
+    .run();
+}
+
+// --- Confirmations ---
+
+export interface Confirmation {
+  account: string;
+  tool: string;
+  requestHash: string;
+  expiresAt: number;
+}
+
+export async function createConfirmation(db: D1Database, tokenHash: string, confirmation: Confirmation): Promise<void> {
+  await db
+    .prepare('INSERT INTO confirmations (token_hash, account, tool, request_hash, expires_at) VALUES (?, ?, ?, ?, ?)')
+    .bind(tokenHash, confirmation.account, confirmation.tool, confirmation.requestHash, confirmation.expiresAt)
+    .run();
+}
+
+// Confirmation tokens are single use
+export async function consumeConfirmation(db: D1Database, tokenHash: string): Promise<Confirmation | null> {
+  const row = await db
+    .prepare('DELETE FROM confirmations WHERE token_hash = ? RETURNING account, tool, request_hash, expires_at')
+    .bind(tokenHash)
+    .first<{ account: string; tool: string; request_hash: string; expires_at: number }>();
+  if (!row) return null;
+  return {
+    account: row.account,
+    tool: row.tool,
+    requestHash: row.request_hash,
+    expiresAt: row.expires_at,
+  };
+}
+
+// --- Account settings ---
+
+export interface AccountSettings {
+  requireConfirmation: boolean;
+}
+
+export const DEFAULT_ACCOUNT_SETTINGS: AccountSettings = {
+  requireConfirmation: false,
+};
+
+export async function getAccountSettings(db: D1Database, account: string): Promise<AccountSettings> {
+  const row = await db
+    .prepare('SELECT require_confirmation FROM account_settings WHERE account = ?')
+    .bind(account)
+    .first<{ require_confirmation: number }>();
+  if (!row) return DEFAULT_ACCOUNT_SETTINGS;
+  return {
+    requireConfirmation: row.require_confirmation === 1,
+  };
+}
+
+export async function setAccountSettings(db: D1Database, account: string, settings: AccountSettings): Promise<void> {
+  await db
+    .prepare('INSERT OR REPLACE INTO account_settings (account, require_confirmation, updated_at) VALUES (?, ?, unixepoch())')
+    .bind(account, settings.requireConfirmation ? 1 : 0)
+    .run();
+}
+
+// --- Restaurant settings ---
+
+export interface RestaurantSettings {
+  // Area booked when the guest doesn't ask for one
+  defaultAreaId: number | null;
+  defaultLanguage: string | null;
+  publicOrHold: 'public' | 'hold';
+  maxPartySize: number | null;
+  // How many days ahead bookings are accepted
+  bookingHorizonDays: number | null;
+}
+
+export const DEFAULT_RESTAURANT_SETTINGS: RestaurantSettings = {
+  defaultAreaId: null,
+  defaultLanguage: null,
+  publicOrHold: 'public',
+  maxPartySize: null,
+  bookingHorizonDays: null,
+};
+
+export async function getRestaurantSettings(
+  db: D1Database,
+  account: string,
+  restaurant: string
+): Promise<RestaurantSettings> {
+  const row = await db
+    .prepare(
+      'SELECT default_area_id, default_language, public_or_hold, max_party_size, booking_horizon_days FROM restaurant_settings WHERE account = ? AND restaurant = ?'
+    )
+    .bind(account, restaurant)
+    .first<{
+      default_area_id: number | null;
+      default_language: string | null;
+      public_or_hold: 'public' | 'hold';
+      max_party_size: number | null;
+      booking_horizon_days: number | null;
+    }>();
+  if (!row) return DEFAULT_RESTAURANT_SETTINGS;
+  return {
+    defaultAreaId: row.default_area_id,
+    defaultLanguage: row.default_language,
+    publicOrHold: row.public_or_hold,
+    maxPartySize: row.max_party_size,
+    bookingHorizonDays: row.booking_horizon_days,
+  };
+}
+
+export async function setRestaurantSettings(
+  db: D1Database,
+  account: string,
+  restaurant: string,
+  settings: RestaurantSettings
+): Promise<void> {
+  await db
+    .prepare(
+      'INSERT OR REPLACE INTO restaurant_settings (account, restaurant, default_area_id, default_language, public_or_hold, max_party_size, booking_horizon_days, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, unixepoch())'
+    )
+    .bind(
+      account,
+      restaurant,
+      settings.defaultAreaId,
+      settings.defaultLanguage,
+      settings.publicOrHold,
+      settings.maxPartySize,
+      settings.bookingHorizonDays
+    )
+    .run();
+}
@@ -0,0 +1,14 @@
+-- Binds cached Meitre tokens to a fingerprint of the credentials.
+-- The tokens table is a disposable cache, so it is recreated rather than altered;
+-- cached sessions are re-established on the next login.
+--
+-- wrangler d1 execute meitre-mcp-db --file=./src/db/migrations/0001_token_fingerprint.sql
+
+DROP TABLE IF EXISTS tokens;
+
+CREATE TABLE tokens (
+  cache_key TEXT PRIMARY KEY,
+  token TEXT NOT NULL,
+  fingerprint TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
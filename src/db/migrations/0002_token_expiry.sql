@@ -0,0 +1,5 @@
+-- Stores the Meitre JWT expiry so tokens can be refreshed before they lapse and purged after.
+--
+-- wrangler d1 execute meitre-mcp-db --file=./src/db/migrations/0002_token_expiry.sql
+
+ALTER TABLE tokens ADD COLUMN expires_at INTEGER;
@@ -1,5 +1,121 @@
 CREATE TABLE IF NOT EXISTS tokens (
   cache_key TEXT PRIMARY KEY,
   token TEXT NOT NULL,
+  fingerprint TEXT NOT NULL,
+  expires_at INTEGER, -- from the JWT `exp` claim
   created_at INTEGER NOT NULL DEFAULT (unixepoch())
 );
+
+-- OAuth 2.1 (MCP authorization)
+
+CREATE TABLE IF NOT EXISTS oauth_clients (
+  client_id TEXT PRIMARY KEY,
+  client_name TEXT,
+  redirect_uris TEXT NOT NULL, -- JSON array
+  created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+-- A grant holds the Meitre credentials a user entered once on the login page
+CREATE TABLE IF NOT EXISTS oauth_grants (
+  id TEXT PRIMARY KEY,
+  client_id TEXT NOT NULL,
+  username TEXT NOT NULL,
+  password TEXT NOT NULL, -- encrypted
+  restaurant TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE TABLE IF NOT EXISTS oauth_codes (
+  code_hash TEXT PRIMARY KEY,
+  grant_id TEXT NOT NULL,
+  client_id TEXT NOT NULL,
+  redirect_uri TEXT NOT NULL,
+  code_challenge TEXT NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS oauth_tokens (
+  token_hash TEXT PRIMARY KEY,
+  grant_id TEXT NOT NULL,
+  client_id TEXT NOT NULL,
+  type TEXT NOT NULL, -- 'access' | 'refresh'
+  expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS oauth_tokens_grant_id ON oauth_tokens (grant_id);
+
+-- Streamable HTTP sessions (Mcp-Session-Id)
+CREATE TABLE IF NOT EXISTS mcp_sessions (
+  id TEXT PRIMARY KEY,
+  username TEXT NOT NULL,
+  protocol_version TEXT NOT NULL,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+-- Read-through cache of Meitre responses, per account. Only read after the caller's credentials
+-- have been checked against the account's token or by logging in to Meitre.
+CREATE TABLE IF NOT EXISTS response_cache (
+  account TEXT NOT NULL,
+  restaurant TEXT NOT NULL,
+  path TEXT NOT NULL,
+  value TEXT NOT NULL, -- JSON
+  expires_at INTEGER NOT NULL,
+  PRIMARY KEY (account, restaurant, path)
+);
+
+CREATE INDEX IF NOT EXISTS response_cache_restaurant ON response_cache (restaurant, path);
+
+-- Every mutating tool call (book, reschedule, cancel), with contact details redacted
+CREATE TABLE IF NOT EXISTS audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  account TEXT NOT NULL,
+  restaurant TEXT,
+  tool TEXT NOT NULL,
+  reservation_id INTEGER,
+  arguments TEXT NOT NULL, -- JSON
+  result TEXT, -- JSON, null on error
+  error TEXT,
+  created_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+CREATE INDEX IF NOT EXISTS audit_log_restaurant ON audit_log (restaurant, created_at);
+CREATE INDEX IF NOT EXISTS audit_log_reservation_id ON audit_log (reservation_id);
+
+-- Results of mutating tool calls by client-supplied idempotency key, so retries don't book twice
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  account TEXT NOT NULL,
+  key TEXT NOT NULL,
+  tool TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  result TEXT, -- JSON, null while the call is in progress
+  created_at INTEGER NOT NULL DEFAULT (unixepoch()), -- when the key was claimed; starts the call's lease
+  PRIMARY KEY (account, key)
+);
+
+-- Short-lived tokens issued by previews of destructive tool calls (cancel, reschedule)
+CREATE TABLE IF NOT EXISTS confirmations (
+  token_hash TEXT PRIMARY KEY,
+  account TEXT NOT NULL,
+  tool TEXT NOT NULL,
+  request_hash TEXT NOT NULL,
+  expires_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS account_settings (
+  account TEXT PRIMARY KEY,
+  require_confirmation INTEGER NOT NULL DEFAULT 0, -- destructive tools must be previewed and confirmed
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+);
+
+-- Booking defaults and policies of a restaurant, per account
+CREATE TABLE IF NOT EXISTS restaurant_settings (
+  account TEXT NOT NULL,
+  restaurant TEXT NOT NULL,
+  default_area_id INTEGER,
+  default_language TEXT,
+  public_or_hold TEXT NOT NULL DEFAULT 'public',
+  max_party_size INTEGER,
+  booking_horizon_days INTEGER,
+  updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+  PRIMARY KEY (account, restaurant)
+);
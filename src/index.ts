@@ -1,72 +1,125 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
-import { MeitreAPI } from './lib/meitre.ts';
-import { handleMcpRequest, type McpHttpRequest } from './mcp/server.ts';
+import type { MeitreCredentials } from './lib/meitre.ts';
+import { handleMcpPost, handleMcpGet, handleMcpDelete } from './mcp/transport.ts';
+import { oauth, resolveAccessToken, resourceMetadataUrl } from './oauth/index.ts';
+import { handleScheduled } from './scheduled.ts';
+import { admin } from './admin.ts';
+import { createKeyring } from './lib/crypto.ts';
 
-type Bindings = Env & {
+export type Bindings = Env & {
   ENCRYPTION_KEY: string;
+  // Comma-separated keys retired by a rotation, still accepted for decryption
+  PREVIOUS_ENCRYPTION_KEYS?: string;
+  // Bearer token for the /admin routes
+  ADMIN_TOKEN?: string;
 };
 
-const app = new Hono<{ Bindings: Bindings }>();
+export type AppEnv = {
+  Bindings: Bindings;
+  Variables: {
+    credentials: MeitreCredentials;
+    // Whether `credentials.restaurant` came from the `restaurant` header, which tool arguments can't
+    // override. The restaurant chosen at OAuth login is only a default.
+    headerRestaurant: boolean;
+  };
+};
+
+const app = new Hono<AppEnv>();
 
 // CORS for MCP clients
-app.use('/mcp', cors());
+app.use(
+  '/mcp',
+  cors({
+    origin: '*',
+    exposeHeaders: ['Mcp-Session-Id', 'WWW-Authenticate'],
+  })
+);
 
 // Health check
 app.get('/health', (c) => {
   return c.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
-// MCP endpoint
-app.post('/mcp', async (c) => {
-  const username = c.req.header('username');
-  const password = c.req.header('password');
-  const restaurant = c.req.header('restaurant');
+// OAuth 2.1 authorization server (metadata, registration, login, tokens)
+app.route('/', oauth);
+
+// Operator endpoints (audit log)
+app.route('/admin', admin);
+
+// MCP authentication: OAuth bearer token, or legacy username/password headers
+app.use('/mcp', async (c, next) => {
+  const authorization = c.req.header('authorization');
+  let username = c.req.header('username');
+  let password = c.req.header('password');
+  const headerRestaurant = c.req.header('restaurant');
+  let restaurant = headerRestaurant;
+
+  if (authorization?.startsWith('Bearer ')) {
+    const grant = await resolveAccessToken(
+      c.env.DB,
+      authorization.slice('Bearer '.length),
+      createKeyring(c.env.ENCRYPTION_KEY, c.env.PREVIOUS_ENCRYPTION_KEYS)
+    );
+
+    if (!grant) {
+      c.header(
+        'WWW-Authenticate',
+        `Bearer error="invalid_token", resource_metadata="${resourceMetadataUrl(c.req.url)}"`
+      );
+      return c.json(
+        {
+          jsonrpc: '2.0',
+          id: null,
+          error: { code: -32001, message: 'Invalid or expired access token' },
+        },
+        401
+      );
+    }
+
+    username = grant.username;
+    password = grant.password;
+    restaurant = restaurant || grant.restaurant || undefined;
+  }
 
   if (!username || !password) {
+    c.header('WWW-Authenticate', `Bearer resource_metadata="${resourceMetadataUrl(c.req.url)}"`);
     return c.json(
       {
         jsonrpc: '2.0',
         id: null,
         error: {
           code: -32001,
-          message: 'Missing required headers: username, password',
+          message: 'Unauthorized. Authenticate with OAuth or send username and password headers.',
         },
       },
       401
     );
   }
 
-  let request: McpHttpRequest;
-  try {
-    request = await c.req.json();
-  } catch {
-    return c.json(
-      {
-        jsonrpc: '2.0',
-        id: null,
-        error: { code: -32700, message: 'Parse error' },
-      },
-      400
-    );
-  }
-
-  const api = new MeitreAPI({ username, password, restaurant: restaurant || undefined }, c.env.DB, c.env.ENCRYPTION_KEY);
-  const response = await handleMcpRequest(request, { api, hasHeaderRestaurant: !!restaurant });
-
-  return c.json(response);
+  c.set('credentials', { username, password, restaurant: restaurant || undefined });
+  c.set('headerRestaurant', !!headerRestaurant);
+  await next();
 });
 
-// Catch-all for /mcp non-POST
+// MCP endpoint (Streamable HTTP)
+app.post('/mcp', handleMcpPost);
+app.get('/mcp', handleMcpGet);
+app.delete('/mcp', handleMcpDelete);
+
+// Catch-all for other /mcp methods
 app.all('/mcp', (c) => {
   return c.json(
     {
       jsonrpc: '2.0',
       id: null,
-      error: { code: -32601, message: 'Method not allowed. Use POST.' },
+      error: { code: -32601, message: 'Method not allowed. Use POST, GET or DELETE.' },
     },
     405
   );
 });
 
-export default app;
+export default {
+  fetch: app.fetch,
+  scheduled: handleScheduled,
+} satisfies ExportedHandler<Bindings>;
@@ -1,11 +1,31 @@
 // AES-256-GCM encryption for cached tokens
 // Uses Web Crypto API (available in Cloudflare Workers)
+//
+// Ciphertexts are versioned as `v1:<keyId>:<base64(iv + ciphertext)>`, so several keys can be
+// active at once during a rotation. Bare `iv + ciphertext` blobs predate key ids.
 
 const ALGORITHM = 'AES-GCM';
 const IV_LENGTH = 12; // 96 bits recommended for GCM
+const VERSION = 'v1';
 
-export async function encrypt(plaintext: string, keyBase64: string): Promise<string> {
-  const key = await importKey(keyBase64);
+// Encrypts with `current`; `previous` keys are only used to decrypt until rows are re-encrypted
+export interface Keyring {
+  current: string;
+  previous: string[];
+}
+
+export function createKeyring(current: string, previous?: string): Keyring {
+  return {
+    current,
+    previous: (previous ?? '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean),
+  };
+}
+
+export async function encrypt(plaintext: string, keyring: Keyring): Promise<string> {
+  const key = await importKey(keyring.current);
   const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
   const encodedData = new TextEncoder().encode(plaintext);
 
@@ -20,12 +40,43 @@ export async function encrypt(plaintext: string, keyBase64: string): Promise<str
   combined.set(iv);
   combined.set(new Uint8Array(encrypted), iv.length);
 
-  return btoa(String.fromCharCode(...combined));
+  return `${VERSION}:${await keyId(keyring.current)}:${btoa(String.fromCharCode(...combined))}`;
+}
+
+// Throws if no key in the keyring can decrypt the ciphertext
+export async function decrypt(ciphertext: string, keyring: Keyring): Promise<string> {
+  const parts = ciphertext.split(':');
+  const keys = [keyring.current, ...keyring.previous];
+
+  if (parts.length === 3 && parts[0] === VERSION) {
+    const [, id, payload] = parts;
+    for (const key of keys) {
+      if ((await keyId(key)) === id) {
+        return decryptWithKey(payload, key);
+      }
+    }
+    throw new Error(`Unknown encryption key id: ${id}`);
+  }
+
+  // Unversioned: try every key
+  for (const key of keys) {
+    try {
+      return await decryptWithKey(ciphertext, key);
+    } catch {
+      // next key
+    }
+  }
+  throw new Error('Unable to decrypt with any configured key');
+}
+
+// Every ciphertext under the current key starts with this; anything else should be re-encrypted
+export async function currentKeyPrefix(keyring: Keyring): Promise<string> {
+  return `${VERSION}:${await keyId(keyring.current)}:`;
 }
 
-export async function decrypt(ciphertext: string, keyBase64: string): Promise<string> {
+async function decryptWithKey(payload: string, keyBase64: string): Promise<string> {
   const key = await importKey(keyBase64);
-  const combined = Uint8Array.from(atob(ciphertext), c => c.charCodeAt(0));
+  const combined = Uint8Array.from(atob(payload), c => c.charCodeAt(0));
 
   const iv = combined.slice(0, IV_LENGTH);
   const encrypted = combined.slice(IV_LENGTH);
@@ -39,18 +90,72 @@ export async function decrypt(ciphertext: string, keyBase64: string): Promise<st
   return new TextDecoder().decode(decrypted);
 }
 
-async function importKey(keyBase64: string): Promise<CryptoKey> {
-  const keyBytes = Uint8Array.from(atob(keyBase64), c => c.charCodeAt(0));
+// Short, non-secret identifier of a key: the start of its SHA-256
+async function keyId(keyBase64: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', decodeKey(keyBase64));
+  return base64UrlEncode(new Uint8Array(digest)).slice(0, 8);
+}
 
-  if (keyBytes.length !== 32) {
-    throw new Error('Encryption key must be 32 bytes (256 bits)');
-  }
+// Keyed hash of Meitre credentials, so a cached token is only handed to whoever knows the password.
+// The HMAC key is derived with HKDF so it never equals the encryption key itself.
+export async function credentialsFingerprint(username: string, password: string, keyBase64: string): Promise<string> {
+  const baseKey = await crypto.subtle.importKey('raw', decodeKey(keyBase64), 'HKDF', false, ['deriveKey']);
+  const hmacKey = await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: new TextEncoder().encode('meitre-mcp credentials') },
+    baseKey,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
 
+  const signature = await crypto.subtle.sign('HMAC', hmacKey, new TextEncoder().encode(`${username}\n${password}`));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+export function generateEncryptionKey(): string {
+  return btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))));
+}
+
+async function importKey(keyBase64: string): Promise<CryptoKey> {
   return crypto.subtle.importKey(
     'raw',
-    keyBytes,
+    decodeKey(keyBase64),
     { name: ALGORITHM },
     false,
     ['encrypt', 'decrypt']
   );
 }
+
+// Opaque tokens for OAuth (codes, access and refresh tokens)
+
+export function generateToken(byteLength = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+// Tokens are stored hashed so a database leak doesn't hand out live sessions
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+// PKCE S256: BASE64URL(SHA256(code_verifier)) must equal code_challenge
+export async function verifyPkce(codeVerifier: string, codeChallenge: string): Promise<boolean> {
+  return (await hashToken(codeVerifier)) === codeChallenge;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function decodeKey(keyBase64: string): Uint8Array {
+  const keyBytes = Uint8Array.from(atob(keyBase64), c => c.charCodeAt(0));
+
+  if (keyBytes.length !== 32) {
+    throw new Error('Encryption key must be 32 bytes (256 bits)');
+  }
+
+  return keyBytes;
+}
@@ -0,0 +1,133 @@
+// Calendar arithmetic in a restaurant's timezone. Dates are YYYY-MM-DD and times HH:MM, both local.
+
+// Today's date in the timezone, or the date at another instant
+export function localDate(timeZone: string, at: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)!.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+// The current time (HH:MM) in the timezone
+export function localTime(timeZone: string, at: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(at);
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, domingo: 0,
+  monday: 1, lunes: 1,
+  tuesday: 2, martes: 2,
+  wednesday: 3, miercoles: 3,
+  thursday: 4, jueves: 4,
+  friday: 5, viernes: 5,
+  saturday: 6, sabado: 6,
+};
+
+const UNIT_DAYS: Record<string, number> = {
+  day: 1, days: 1, dia: 1, dias: 1,
+  week: 7, weeks: 7, semana: 7, semanas: 7,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, un: 1, una: 1, uno: 1,
+  two: 2, dos: 2,
+  three: 3, tres: 3,
+  four: 4, cuatro: 4,
+};
+
+// Resolves a YYYY-MM-DD date or a relative expression, in English or Spanish, against `today`:
+// "today", "tomorrow", "day after tomorrow", "in 3 days", "in 2 weeks", "saturday", "this saturday"
+// (the coming one, possibly today), "next saturday" (the coming one, never today), and the Spanish
+// equivalents ("hoy", "mañana", "pasado mañana", "en 2 semanas", "este sábado", "el próximo viernes").
+export function resolveDate(expression: string, today: string): string {
+  const text = expression
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLowerCase()
+    .replace(/[.,!?]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    if (addDays(text, 0) !== text) throw new Error(`Invalid date: "${expression}"`);
+    return text;
+  }
+
+  if (text === 'today' || text === 'hoy') return today;
+  if (text === 'tomorrow' || text === 'manana') return addDays(today, 1);
+  if (text === 'day after tomorrow' || text === 'the day after tomorrow' || text === 'pasado manana') {
+    return addDays(today, 2);
+  }
+
+  const offset = text.match(/^(?:in|en|dentro de) (\d+|[a-z]+) ([a-z]+)$/);
+  if (offset && offset[2] in UNIT_DAYS) {
+    const count = /^\d+$/.test(offset[1]) ? Number(offset[1]) : NUMBER_WORDS[offset[1]];
+    if (count !== undefined) return addDays(today, count * UNIT_DAYS[offset[2]]);
+  }
+
+  const weekday = text.match(
+    /^(?:on |the |el |la )?(this|next|este|esta|proximo|proxima)? ?([a-z]+)(?: (que viene|proximo))?$/
+  );
+  if (weekday && weekday[2] in WEEKDAYS) {
+    const next = !!weekday[3] || ['next', 'proximo', 'proxima'].includes(weekday[1]);
+    const days = (WEEKDAYS[weekday[2]] - dayOfWeek(today) + 7) % 7;
+    return addDays(today, days === 0 && next ? 7 : days);
+  }
+
+  throw new Error(
+    `Unrecognized date: "${expression}". Use YYYY-MM-DD or an expression like "tomorrow", "this Saturday" or "in 2 weeks".`
+  );
+}
+
+function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// ISO 8601 timestamp of a local date and time, with the timezone's offset at that moment
+// (e.g. 2026-10-20T20:00:00-03:00)
+export function toZonedIso(date: string, time: string, timeZone: string): string {
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  // The offset at the wall-clock time read as UTC is off by at most one DST jump; a second pass settles it
+  const guess = offsetMinutes(timeZone, new Date(wallClock));
+  const offset = offsetMinutes(timeZone, new Date(wallClock - guess * 60_000));
+  return `${date}T${time}:00${formatOffset(offset)}`;
+}
+
+// Meitre sends dates as "2026-10-20T00:00:00..." and times as "2026-10-20 20:00:00", already local
+export function meitreDate(resDate: string): string {
+  return resDate.split('T')[0];
+}
+
+export function meitreTime(resTime: string): string {
+  return resTime.split(' ')[1]?.slice(0, 5) ?? resTime;
+}
+
+function offsetMinutes(timeZone: string, at: Date): number {
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+    .formatToParts(at)
+    .find((p) => p.type === 'timeZoneName')!.value;
+  // "GMT-03:00", or just "GMT" for UTC
+  const match = name.match(/^GMT([+-])(\d{2}):(\d{2})$/);
+  if (!match) return 0;
+  return (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3]));
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
@@ -1,13 +1,63 @@
-import { getToken, setToken, deleteToken } from '../db/index.ts';
+import type { TokenStore, CachedToken, ResponseCache } from '../store/index.ts';
+import { credentialsFingerprint } from './crypto.ts';
 
 const BASE_URL = 'https://api.meitre.com/api';
 
+// Tokens are refreshed this many seconds before their `exp`, so no request races the expiry
+const REFRESH_MARGIN = 5 * 60;
+
+// Seconds read-only responses are cached for: restaurant configuration changes rarely,
+// availability changes with every booking
+const CACHE_TTL = {
+  areas: 60 * 60,
+  serviceTypes: 60 * 60,
+  menus: 60 * 60,
+  calendar: 5 * 60,
+  timeslots: 60,
+};
+
+// Calendar and timeslots live under this path; bookings and cancellations invalidate it
+const AVAILABILITY_PATH = 'availabilities/';
+
+// Logins in flight, keyed by account and fingerprint. Concurrent callers in this isolate share one.
+const pendingLogins = new Map<string, Promise<CachedToken>>();
+
 export interface MeitreCredentials {
   username: string;
   password: string;
   restaurant?: string;
 }
 
+export interface MeitreReservation {
+  id: number;
+  uniqueId: string;
+  status: string;
+  resDate: string;
+  resTime: string;
+  guestName: string;
+  guestPhone: string;
+  guestEmail: string;
+  partySize: number;
+  areaId: number;
+  area: string;
+  menuId: number | null;
+  menu: string | null;
+}
+
+export interface MeitreClient {
+  id: number;
+  fullName: string;
+  email: string;
+  phone: string;
+}
+
+export interface ReservationSearchFilters {
+  // Reservation dates, YYYY-MM-DD, inclusive
+  from?: string;
+  to?: string;
+  statuses?: string[];
+}
+
 export interface MeitreRestaurant {
   id: number;
   name: string;
@@ -16,24 +66,89 @@ export interface MeitreRestaurant {
   timezone: string;
 }
 
+// A failed call to Meitre. `status` is the HTTP status, or null when Meitre couldn't be reached.
+// The response body may echo guest details, so it's kept out of the message, which gets logged.
+export class MeitreError extends Error {
+  status: number | null;
+  body: string;
+
+  constructor(message: string, status: number | null, body = '') {
+    super(message);
+    this.name = 'MeitreError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+// Meitre refused to log in: with a status below 500, the credentials themselves were rejected
+export class MeitreLoginError extends MeitreError {
+  constructor(status: number, body = '') {
+    super(`Meitre login failed: ${status}`, status, body);
+    this.name = 'MeitreLoginError';
+  }
+}
+
+// The account's restaurants don't tell which one to use: it has none, several, or not the one asked for
+export class RestaurantError extends Error {
+  reason: 'none' | 'ambiguous' | 'inaccessible';
+  restaurants: MeitreRestaurant[];
+
+  constructor(message: string, reason: RestaurantError['reason'], restaurants: MeitreRestaurant[]) {
+    super(message);
+    this.name = 'RestaurantError';
+    this.reason = reason;
+    this.restaurants = restaurants;
+  }
+}
+
+interface MeitreSession {
+  fingerprint: string | null;
+  token: string | null;
+  tokenExpiresAt: number | null;
+}
+
 export class MeitreAPI {
   private credentials: MeitreCredentials;
-  private db: D1Database;
+  private tokenStore: TokenStore;
   private encryptionKey: string;
   private cacheKey: string;
-  private token: string | null = null;
+  // Login state and restaurant timezones, shared with the clients made by forRestaurant()
+  private session: MeitreSession = { fingerprint: null, token: null, tokenExpiresAt: null };
+  private timezones = new Map<string, string>();
   private restaurant: string | null;
-
-  constructor(credentials: MeitreCredentials, db: D1Database, encryptionKey: string) {
+  private responseCache: ResponseCache | null;
+
+  constructor(
+    credentials: MeitreCredentials,
+    tokenStore: TokenStore,
+    encryptionKey: string,
+    responseCache?: ResponseCache
+  ) {
     this.credentials = credentials;
-    this.db = db;
+    this.tokenStore = tokenStore;
     this.encryptionKey = encryptionKey;
+    this.responseCache = responseCache ?? null;
     this.restaurant = credentials.restaurant ?? null;
     this.cacheKey = credentials.username;
   }
 
   private async login(): Promise<string> {
-    const res = await fetch(`${BASE_URL}/login_check`, {
+    const key = `${this.cacheKey}\n${await this.getFingerprint()}`;
+
+    let pending = pendingLogins.get(key);
+    if (!pending) {
+      pending = this.requestToken().finally(() => pendingLogins.delete(key));
+      pendingLogins.set(key, pending);
+    }
+
+    const entry = await pending;
+    this.session.token = entry.token;
+    this.session.tokenExpiresAt = entry.expiresAt;
+    return entry.token;
+  }
+
+  private async requestToken(): Promise<CachedToken> {
+    const res = await send(`${BASE_URL}/login_check`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -43,36 +158,60 @@ export class MeitreAPI {
     });
 
     if (!res.ok) {
-      throw new Error(`Meitre login failed: ${res.status}`);
+      // Rejected credentials: whatever is cached for this account can't be trusted anymore
+      if (res.status < 500) {
+        await this.tokenStore.delete(this.cacheKey);
+      }
+      throw new MeitreLoginError(res.status, await res.text());
     }
 
     const data = await res.json<{ token: string }>();
-    await setToken(this.db, this.cacheKey, data.token, this.encryptionKey);
-    this.token = data.token;
-    return data.token;
+    const entry: CachedToken = {
+      token: data.token,
+      fingerprint: await this.getFingerprint(),
+      expiresAt: decodeJwtExpiry(data.token),
+    };
+    await this.tokenStore.set(this.cacheKey, entry);
+    return entry;
   }
 
-  private async getOrRefreshToken(): Promise<string> {
-    if (this.token) return this.token;
+  // Forces a real login, used to check credentials entered on the OAuth login page
+  async authenticate(): Promise<void> {
+    await this.login();
+  }
 
-    const cached = await getToken(this.db, this.cacheKey, this.encryptionKey);
-    if (cached) {
-      this.token = cached;
-      return cached;
+  private async getOrRefreshToken(): Promise<string> {
+    if (this.session.token && !isExpiring(this.session.tokenExpiresAt)) return this.session.token;
+
+    // A cached token is only reused by whoever presents the same password it was obtained with
+    const cached = await this.tokenStore.get(this.cacheKey);
+    if (cached && cached.fingerprint === (await this.getFingerprint()) && !isExpiring(cached.expiresAt)) {
+      this.session.token = cached.token;
+      this.session.tokenExpiresAt = cached.expiresAt;
+      return cached.token;
     }
 
     return this.login();
   }
 
+  private async getFingerprint(): Promise<string> {
+    this.session.fingerprint ??= await credentialsFingerprint(
+      this.credentials.username,
+      this.credentials.password,
+      this.encryptionKey
+    );
+    return this.session.fingerprint;
+  }
+
   async listRestaurants(): Promise<MeitreRestaurant[]> {
     const token = await this.getOrRefreshToken();
 
-    const res = await fetch(`${BASE_URL}/admin/v2/restaurants`, {
+    const res = await send(`${BASE_URL}/admin/v2/restaurants`, {
       headers: { Authorization: `Bearer ${token}` },
     });
 
     if (!res.ok) {
-      throw new Error(`Meitre API error: ${res.status}`);
+      throw new MeitreError(`Meitre API error: ${res.status}`, res.status, await res.text());
     }
 
     const data = await res.json<{
@@ -94,22 +233,43 @@ export class MeitreAPI {
     }));
   }
 
-  setRestaurant(restaurant: string) {
-    this.restaurant = restaurant;
+  // A client for another restaurant of the same account. It shares this client's login, so several
+  // restaurants can be queried at once without re-authenticating or switching a shared restaurant.
+  forRestaurant(restaurant: string): MeitreAPI {
+    const api = new MeitreAPI(
+      { ...this.credentials, restaurant },
+      this.tokenStore,
+      this.encryptionKey,
+      this.responseCache ?? undefined
+    );
+    api.session = this.session;
+    api.timezones = this.timezones;
+    return api;
+  }
+
+  getAccount(): string {
+    return this.credentials.username;
   }
 
-  private async getRestaurant(): Promise<string> {
+  // The restaurant set or resolved so far, without calling Meitre
+  getCurrentRestaurant(): string | null {
+    return this.restaurant;
+  }
+
+  async getRestaurant(): Promise<string> {
     if (this.restaurant) return this.restaurant;
 
     const restaurants = await this.listRestaurants();
 
     if (restaurants.length === 0) {
-      throw new Error('No restaurants found for this account');
+      throw new RestaurantError('No restaurants found for this account', 'none', restaurants);
     }
 
     if (restaurants.length > 1) {
-      throw new Error(
-        'Multiple restaurants found for this account. Use the list_restaurants tool to see them, then set the "restaurant" header.'
+      throw new RestaurantError(
+        'Multiple restaurants found for this account. Pass one of them as "restaurant", or set the "restaurant" header.',
+        'ambiguous',
+        restaurants
       );
     }
 
@@ -117,12 +277,30 @@ export class MeitreAPI {
     return this.restaurant;
   }
 
+  // IANA timezone of the current restaurant. Meitre's dates and times are local to it.
+  async getTimezone(): Promise<string> {
+    const restaurant = await this.getRestaurant();
+
+    let timezone = this.timezones.get(restaurant);
+    if (!timezone) {
+      const restaurants = await this.listRestaurants();
+      const match = restaurants.find((r) => r.subdomainPrefix === restaurant);
+      if (!match) {
+        throw new RestaurantError(`Restaurant not accessible to this account: ${restaurant}`, 'inaccessible', restaurants);
+      }
+      timezone = match.timezone;
+      this.timezones.set(restaurant, timezone);
+    }
+
+    return timezone;
+  }
+
   async fetch<T>(path: string, options: RequestInit = {}): Promise<T> {
     const token = await this.getOrRefreshToken();
     const restaurant = await this.getRestaurant();
     const url = `${BASE_URL}/admin/v2/restaurants/${restaurant}/${path}`;
 
-    const res = await fetch(url, {
+    const res = await send(url, {
       ...options,
       headers: {
         'Content-Type': 'application/json',
@@ -133,11 +311,12 @@ export class MeitreAPI {
 
     // On 401, invalidate cache and retry once
     if (res.status === 401) {
-      await deleteToken(this.db, this.cacheKey);
-      this.token = null;
+      await this.tokenStore.delete(this.cacheKey);
+      this.session.token = null;
+      this.session.tokenExpiresAt = null;
       const newToken = await this.login();
 
-      const retry = await fetch(url, {
+      const retry = await send(url, {
         ...options,
         headers: {
           'Content-Type': 'application/json',
@@ -147,23 +326,46 @@ export class MeitreAPI {
       });
 
       if (!retry.ok) {
-        throw new Error(`Meitre API error: ${retry.status} ${await retry.text()}`);
+        throw new MeitreError(`Meitre API error: ${retry.status}`, retry.status, await retry.text());
       }
 
       return retry.json<T>();
     }
 
     if (!res.ok) {
-      throw new Error(`Meitre API error: ${res.status} ${await res.text()}`);
+      throw new MeitreError(`Meitre API error: ${res.status}`, res.status, await res.text());
     }
 
     return res.json<T>();
   }
 
+  // Read-through cache for GET endpoints, per account and restaurant. `fresh` skips the cached
+  // response, still refreshing it with the one fetched.
+  private async cachedFetch<T>(path: string, ttl: number, fresh = false): Promise<T> {
+    if (!this.responseCache) return this.fetch<T>(path);
+
+    // Only callers holding the account's password may read its cached responses: this logs in
+    // unless a token obtained with the same credentials is at hand
+    await this.getOrRefreshToken();
+
+    const key = { account: this.cacheKey, restaurant: await this.getRestaurant(), path };
+    const cached = fresh ? null : await this.responseCache.get<T>(key);
+    if (cached) return cached;
+
+    const data = await this.fetch<T>(path);
+    await this.responseCache.set(key, data, ttl);
+    return data;
+  }
+
+  private async invalidateAvailability(): Promise<void> {
+    if (!this.responseCache) return;
+    await this.responseCache.invalidate(await this.getRestaurant(), AVAILABILITY_PATH);
+  }
+
   // --- API methods ---
 
   async getAreas() {
-    return this.fetch<{
+    return this.cachedFetch<{
       code: number;
       message: string;
       areas: Array<{
@@ -174,19 +376,19 @@ export class MeitreAPI {
         offerAlways: boolean;
         privateArea: boolean;
       }>;
-    }>('areas');
+    }>('areas', CACHE_TTL.areas);
   }
 
   async getServiceTypes() {
-    return this.fetch<{
+    return this.cachedFetch<{
       code: number;
       message: string;
       serviceTypes: Array<'lunch' | 'dinner'>;
-    }>('timeslots/servicetype');
+    }>('timeslots/servicetype', CACHE_TTL.serviceTypes);
   }
 
   async getMenus() {
-    return this.fetch<{
+    return this.cachedFetch<{
       code: number;
       message: string;
       menus: Array<{
@@ -196,7 +398,7 @@ export class MeitreAPI {
         isActive: boolean;
         price: string;
       }>;
-    }>('menus?onlyActives=1');
+    }>('menus?onlyActives=1', CACHE_TTL.menus);
   }
 
   async getCalendar(params: {
@@ -212,7 +414,7 @@ export class MeitreAPI {
     if (params.areaId) searchParams.set('areasIds', String(params.areaId));
     if (params.menuId) searchParams.set('menusIds', String(params.menuId));
 
-    return this.fetch<{
+    return this.cachedFetch<{
       code: number;
       message: string;
       data: {
@@ -222,16 +424,20 @@ export class MeitreAPI {
           isSpecialDay: boolean;
         }>;
       };
-    }>(`availabilities/calendarnew?${searchParams}`);
+    }>(`${AVAILABILITY_PATH}calendarnew?${searchParams}`, CACHE_TTL.calendar);
   }
 
-  async getTimeslots(params: {
-    partySize: number;
-    date: string;
-    serviceType: string;
-    areaId?: number;
-    menuId?: number;
-  }) {
+  // `fresh` bypasses the cache, for checks that must see bookings made moments ago
+  async getTimeslots(
+    params: {
+      partySize: number;
+      date: string;
+      serviceType: string;
+      areaId?: number;
+      menuId?: number;
+    },
+    { fresh = false }: { fresh?: boolean } = {}
+  ) {
     const searchParams = new URLSearchParams({
       partySize: String(params.partySize),
       date: params.date,
@@ -240,7 +446,7 @@ export class MeitreAPI {
     if (params.areaId) searchParams.set('areasIds', String(params.areaId));
     if (params.menuId) searchParams.set('menusIds', String(params.menuId));
 
-    return this.fetch<{
+    return this.cachedFetch<{
       code: number;
       message: string;
       data: {
@@ -252,51 +458,79 @@ export class MeitreAPI {
           }>;
         };
       };
-    }>(`availabilities/searchallhoursadmin?${searchParams}`);
+    }>(`${AVAILABILITY_PATH}searchallhoursadmin?${searchParams}`, CACHE_TTL.timeslots, fresh);
   }
 
-  async searchReservations(term: string) {
+  // Full-text search over guest name, phone, email and reservation numbers. Meitre doesn't filter
+  // by date or status, so those filters are applied to its results here.
+  async searchReservations(term: string, filters: ReservationSearchFilters = {}) {
     const searchParams = new URLSearchParams({ term });
 
-    return this.fetch<{
+    const res = await this.fetch<{
       code: number;
       message: string;
       data: {
-        reservations: Array<{
-          id: number;
-          status: string;
-          resDate: string;
-          resTime: string;
-          guestName: string;
-          guestPhone: string;
-          guestEmail: string;
-          partySize: number;
-          areaId: number;
-          area: string;
-          menuId: number | null;
-          menu: string | null;
-        }>;
+        reservations: MeitreReservation[];
       };
     }>(`search/fulltext?${searchParams}`);
+
+    const { from, to, statuses } = filters;
+    res.data.reservations = res.data.reservations.filter((r) => {
+      const date = r.resDate.split('T')[0];
+      return (!from || date >= from) && (!to || date <= to) && (!statuses || statuses.includes(r.status));
+    });
+    return res;
   }
 
-  async searchClients(phone: string) {
-    const searchParams = new URLSearchParams({ fullName: phone });
+  // Every reservation on a date, in any status, optionally for one service
+  async listReservations(params: { date: string; serviceType?: string }) {
+    const searchParams = new URLSearchParams({ date: params.date });
+    if (params.serviceType) searchParams.set('serviceType', params.serviceType);
 
     return this.fetch<{
       code: number;
       message: string;
-      clients: Array<{
-        id: number;
-        fullName: string;
-        email: string;
-        phone: string;
-      }>;
+      data: {
+        reservations: MeitreReservation[];
+      };
+    }>(`reservations?${searchParams}`);
+  }
+
+  // Matches name, phone or email, despite the parameter's name
+  async searchClients(term: string) {
+    const searchParams = new URLSearchParams({ fullName: term });
+
+    return this.fetch<{
+      code: number;
+      message: string;
+      clients: MeitreClient[];
     }>(`clients?${searchParams}`);
   }
 
-  async createReservation(data: Record<string, unknown>) {
+  async createClient(data: Omit<MeitreClient, 'id'>) {
+    return this.fetch<{
+      code: number;
+      message: string;
+      client: MeitreClient;
+    }>('clients', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateClient(clientId: number, data: Partial<Omit<MeitreClient, 'id'>>) {
     return this.fetch<{
+      code: number;
+      message: string;
+      client: MeitreClient;
+    }>(`clients/${clientId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  async createReservation(data: Record<string, unknown>) {
+    const res = await this.fetch<{
       code: number;
       message: string;
       reservation: {
@@ -314,6 +548,30 @@ export class MeitreAPI {
       method: 'POST',
       body: JSON.stringify(data),
     });
+
+    await this.invalidateAvailability();
+    return res;
+  }
+
+  // Changes fields of a reservation in place, without rescheduling it
+  async updateReservation(reservationId: number, data: Record<string, unknown>) {
+    return this.fetch<{
+      code: number;
+      message: string;
+      data: {
+        reservation: {
+          id: number;
+          status: string;
+          resDate: string;
+          resTime: string;
+          guestName: string;
+          partySize: number;
+        };
+      };
+    }>(`reservations/${reservationId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
   }
 
   async cancelReservation(reservationId: number) {
@@ -322,7 +580,7 @@ export class MeitreAPI {
       cancelOption: '1',
     });
 
-    return this.fetch<{
+    const res = await this.fetch<{
       code: number;
       message: string;
       data: {
@@ -339,5 +597,32 @@ export class MeitreAPI {
       method: 'PATCH',
       body: JSON.stringify({ status: 'cancelled' }),
     });
+
+    await this.invalidateAvailability();
+    return res;
+  }
+}
+
+// Reads `exp` from a JWT payload without verifying it; Meitre is the one that enforces it
+function decodeJwtExpiry(token: string): number | null {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const { exp } = JSON.parse(atob(payload)) as { exp?: unknown };
+    return typeof exp === 'number' ? exp : null;
+  } catch {
+    return null;
+  }
+}
+
+function isExpiring(expiresAt: number | null): boolean {
+  return expiresAt !== null && expiresAt - REFRESH_MARGIN <= Math.floor(Date.now() / 1000);
+}
+
+// fetch, with network failures reported as a MeitreError without a status
+async function send(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    throw new MeitreError(`Meitre is unreachable: ${error instanceof Error ? error.message : error}`, null);
   }
 }
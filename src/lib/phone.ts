@@ -0,0 +1,126 @@
+// Phone numbers in E.164 (+5491155551234). Numbers without a country code are read as local to
+// the restaurant, whose country is derived from its timezone.
+
+const CALLING_CODES: Record<string, string> = {
+  AR: '54',
+  BO: '591',
+  BR: '55',
+  CL: '56',
+  CO: '57',
+  EC: '593',
+  ES: '34',
+  MX: '52',
+  PE: '51',
+  PY: '595',
+  US: '1',
+  UY: '598',
+};
+
+const TIMEZONE_COUNTRIES: Record<string, string> = {
+  'America/Buenos_Aires': 'AR',
+  'America/Cordoba': 'AR',
+  'America/Mendoza': 'AR',
+  'America/La_Paz': 'BO',
+  'America/Sao_Paulo': 'BR',
+  'America/Santiago': 'CL',
+  'America/Punta_Arenas': 'CL',
+  'America/Bogota': 'CO',
+  'America/Guayaquil': 'EC',
+  'Europe/Madrid': 'ES',
+  'America/Mexico_City': 'MX',
+  'America/Cancun': 'MX',
+  'America/Monterrey': 'MX',
+  'America/Tijuana': 'MX',
+  'America/Lima': 'PE',
+  'America/Asuncion': 'PY',
+  'America/New_York': 'US',
+  'America/Chicago': 'US',
+  'America/Denver': 'US',
+  'America/Los_Angeles': 'US',
+  'America/Montevideo': 'UY',
+};
+
+// Argentine mobiles carry a 9 between the country code and the area code in international format,
+// but not in national format: 11 5555-1234 is +54 9 11 5555-1234
+const AR_MOBILE_PREFIX = '9';
+const AR_NATIONAL_LENGTH = 10;
+
+// Locally, mobiles are also written with 15 between the area code and the subscriber number, which
+// international format drops: 011 15 5555-1234 is +54 9 11 5555-1234, 0351 15 555-1234 is +54 9 351 555-1234
+const AR_LOCAL_MOBILE_PREFIX = '15';
+
+// Where that 15 goes depends on the area code: 11 (Buenos Aires) is the only 2-digit one, these are the
+// 3-digit ones, and the rest have 4 digits. No area code is a prefix of another.
+const AR_AREA_CODES_3 = new Set([
+  '220', '221', '223', '230', '236', '237', '249', '260', '261', '263', '264', '266', '280', '291', '294', '297',
+  '298', '299', '336', '341', '342', '343', '345', '348', '351', '353', '358', '362', '364', '370', '376', '379',
+  '380', '381', '383', '385', '387', '388',
+]);
+
+// National numbers in these countries have at most this many digits, so longer ones include the country code
+const MAX_NATIONAL_LENGTH = 10;
+
+// Country (ISO 3166 alpha-2) a restaurant's local phone numbers belong to, if known
+export function countryForTimezone(timeZone: string): string | null {
+  if (timeZone.startsWith('America/Argentina/')) return 'AR';
+  return TIMEZONE_COUNTRIES[timeZone] ?? null;
+}
+
+// E.164 form of a phone number. Without a country to assume, a number lacking its
+// country code is only stripped of formatting.
+export function normalizePhone(phone: string, country: string | null): string {
+  const digits = phone.replace(/\D/g, '');
+  const trimmed = phone.trim();
+
+  if (trimmed.startsWith('+')) return `+${digits}`;
+  if (digits.startsWith('00')) return `+${digits.slice(2)}`;
+
+  const code = country ? CALLING_CODES[country] : undefined;
+  if (!code) return digits;
+
+  // Already international, just missing the +
+  if (digits.startsWith(code) && digits.length > MAX_NATIONAL_LENGTH) return `+${digits}`;
+
+  // Drop the trunk prefix (011 5555-1234 is dialled as 11 5555-1234 from abroad)
+  let national = digits.replace(/^0/, '');
+
+  if (country === 'AR') {
+    national = stripArLocalMobilePrefix(national);
+    // Landlines can't be told apart from mobiles here; guests almost always leave a mobile
+    if (national.length === AR_NATIONAL_LENGTH) return `+${code}${AR_MOBILE_PREFIX}${national}`;
+  }
+
+  return `+${code}${national}`;
+}
+
+// 11 15 5555-1234 -> 11 5555-1234; numbers without the 15 are returned as they are
+function stripArLocalMobilePrefix(national: string): string {
+  if (national.length !== AR_NATIONAL_LENGTH + AR_LOCAL_MOBILE_PREFIX.length) return national;
+
+  const areaLength = national.startsWith('11') ? 2 : AR_AREA_CODES_3.has(national.slice(0, 3)) ? 3 : 4;
+  if (national.slice(areaLength, areaLength + AR_LOCAL_MOBILE_PREFIX.length) !== AR_LOCAL_MOBILE_PREFIX) {
+    return national;
+  }
+  return national.slice(0, areaLength) + national.slice(areaLength + AR_LOCAL_MOBILE_PREFIX.length);
+}
+
+// Forms a phone number may have been stored in, for searching: E.164, without the +, the national
+// number, and for Argentina with and without the mobile 9. Deduplicated, input first.
+export function phoneVariants(phone: string, country: string | null): string[] {
+  const variants = [phone.trim()];
+  const e164 = normalizePhone(phone, country);
+  const code = e164.startsWith('+') ? Object.values(CALLING_CODES).find((c) => e164.startsWith(`+${c}`)) : undefined;
+
+  if (code === CALLING_CODES.AR) {
+    const national = e164.slice(code.length + 1);
+    const local = national.length > AR_NATIONAL_LENGTH ? national.replace(AR_MOBILE_PREFIX, '') : national;
+    const mobile = `${code}${AR_MOBILE_PREFIX}${local}`;
+    variants.push(`+${mobile}`, mobile, `+${code}${local}`, `${code}${local}`, local);
+  } else if (code) {
+    variants.push(e164, e164.slice(1), e164.slice(code.length + 1));
+  } else {
+    variants.push(e164);
+  }
+
+  return [...new Set(variants.filter(Boolean))];
+}
@@ -0,0 +1,80 @@
+import { toToolError } from './errors.ts';
+import type { ToolContext } from './tools.ts';
+
+const CONTACT_KEYS = new Set(['phone', 'email', 'guestPhone', 'guestEmail']);
+
+// Tools whose `id` in the result is a reservation's; other audited tools return other records
+const RESERVATION_TOOLS = new Set([
+  'book_reservation',
+  'reschedule_reservation',
+  'cancel_reservation',
+  'update_reservation_details',
+]);
+
+// Runs a mutating tool and records it, whether it succeeds or fails
+export async function withAudit<T>(
+  context: ToolContext,
+  tool: string,
+  args: Record<string, unknown>,
+  execute: () => Promise<T>
+): Promise<T> {
+  let result: T | null = null;
+  let error: string | null = null;
+
+  try {
+    result = await execute();
+    return result;
+  } catch (e) {
+    const failure = toToolError(e);
+    error = `${failure.code}: ${failure.message}`;
+    throw e;
+  } finally {
+    try {
+      await context.auditLog.record({
+        account: context.api.getAccount(),
+        restaurant: context.api.getCurrentRestaurant(),
+        tool,
+        reservationId: reservationIdOf(tool, args, result),
+        arguments: redact(args),
+        result: result === null ? null : redact(result),
+        error,
+      });
+    } catch (e) {
+      // The Meitre call already happened; a failed audit write must not hide its outcome
+      console.error('Audit log write failed', e);
+    }
+  }
+}
+
+// The reservation acted upon (cancel, reschedule) or created (book)
+function reservationIdOf(tool: string, args: Record<string, unknown>, result: unknown): number | null {
+  if (!RESERVATION_TOOLS.has(tool)) return null;
+  if (typeof args.reservationId === 'number') return args.reservationId;
+  if (typeof result === 'object' && result !== null && typeof (result as { id?: unknown }).id === 'number') {
+    return (result as { id: number }).id;
+  }
+  return null;
+}
+
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (typeof value !== 'object' || value === null) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [
+      key,
+      CONTACT_KEYS.has(key) && typeof v === 'string' ? maskContact(v) : redact(v),
+    ])
+  );
+}
+
+// Keeps just enough to tell guests apart: last 4 phone digits, first letter and domain of an email
+function maskContact(value: string): string {
+  if (!value) return value;
+
+  const at = value.indexOf('@');
+  if (at > 0) return `${value[0]}***${value.slice(at)}`;
+
+  const digits = value.replace(/\D/g, '');
+  return `***${digits.slice(-4)}`;
+}
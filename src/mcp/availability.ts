@@ -0,0 +1,81 @@
+import { localDate, localTime, toZonedIso } from '../lib/dates.ts';
+import { ToolError } from './errors.ts';
+import type { ToolContext } from './tools.ts';
+
+// How many alternatives a rejected booking suggests
+const NEAREST_SLOTS = 5;
+
+interface SlotRequest {
+  partySize: number;
+  date: string;
+  time: string;
+  serviceType?: 'lunch' | 'dinner';
+  // Only an area the guest asked for must be offered; otherwise any area of the slot will do
+  areaId: number;
+  areaRequested: boolean;
+  menuId?: number;
+}
+
+// Checks a booking against live availability before it's sent to Meitre. Returns the area to
+// book, and throws with the nearest valid slots of the day when the requested one isn't offered.
+export async function verifySlot(context: ToolContext, request: SlotRequest): Promise<{ areaId: number }> {
+  const timeZone = await context.api.getTimezone();
+  const today = localDate(timeZone);
+
+  if (request.date < today || (request.date === today && request.time <= localTime(timeZone))) {
+    throw new ToolError('VALIDATION', `${request.date} ${request.time} is in the past`, {
+      fields: { [request.date < today ? 'date' : 'time']: 'In the past' },
+    });
+  }
+
+  const serviceTypes = request.serviceType
+    ? [request.serviceType]
+    : (await context.api.getServiceTypes()).serviceTypes;
+  const timeslots = await Promise.all(
+    serviceTypes.map((serviceType) =>
+      // Live, not the cached response the model just saw: the slot may have gone since, through any channel
+      context.api.getTimeslots({ partySize: request.partySize, date: request.date, serviceType }, { fresh: true })
+    )
+  );
+
+  const slots = serviceTypes.flatMap((serviceType, i) =>
+    timeslots[i].data.center.slots
+      .map((s) => ({
+        serviceType,
+        time: s.hour.slice(0, 5),
+        areas: s.availableAreas.map((a) => ({ id: a.id, name: a.name })),
+        menus: s.menus.map((m) => ({ id: m.id, name: m.name })),
+      }))
+      .filter(
+        (s) =>
+          (!request.areaRequested || s.areas.some((a) => a.id === request.areaId)) &&
+          (request.menuId === undefined || s.menus.some((m) => m.id === request.menuId)) &&
+          s.areas.length > 0
+      )
+  );
+
+  const slot = slots.find((s) => s.time === request.time);
+  if (slot) {
+    const areaId = slot.areas.some((a) => a.id === request.areaId) ? request.areaId : slot.areas[0].id;
+    return { areaId };
+  }
+
+  const minutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+  const nearestSlots = slots
+    .sort((a, b) => Math.abs(minutes(a.time) - minutes(request.time)) - Math.abs(minutes(b.time) - minutes(request.time)))
+    .slice(0, NEAREST_SLOTS)
+    .map((s) => ({ ...s, startsAt: toZonedIso(request.date, s.time, timeZone) }));
+
+  const wanted = [
+    request.areaRequested && `area ${request.areaId}`,
+    request.menuId !== undefined && `menu ${request.menuId}`,
+  ].filter(Boolean);
+  throw new ToolError(
+    'SLOT_UNAVAILABLE',
+    `${request.date} at ${request.time} is not available for ${request.partySize}${wanted.length ? ` in ${wanted.join(' with ')}` : ''}. ` +
+      (nearestSlots.length
+        ? 'The nearest available slots that day are listed in nearestSlots.'
+        : 'Nothing is available that day; use find_next_availability to look at other dates.'),
+    { date: request.date, time: request.time, nearestSlots }
+  );
+}
@@ -0,0 +1,68 @@
+import { generateToken, hashToken } from '../lib/crypto.ts';
+import { hashRequest, findReplay } from './idempotency.ts';
+import { ToolError } from './errors.ts';
+import type { ToolContext } from './tools.ts';
+
+// How long a preview's confirmation token stays valid, in seconds
+export const CONFIRMATION_TTL = 5 * 60;
+
+// Two-phase execution of a destructive tool. With `preview`, or when the account requires
+// confirmation and no token is given, describes what would happen and issues a single-use
+// `confirmationToken`; calling again with the token and the same arguments executes.
+export async function withConfirmation<T>(
+  context: ToolContext,
+  tool: string,
+  params: Record<string, unknown>,
+  preview: () => Promise<unknown>,
+  execute: () => Promise<T>
+): Promise<T | Record<string, unknown>> {
+  const account = context.api.getAccount();
+  const token = params.confirmationToken;
+  const requestHash = await hashRequest(context, params);
+
+  if (typeof token === 'string' && token) {
+    // A retry of a confirmed call that already went through: its first attempt used up the token,
+    // so replay the stored result before looking at it
+    const replay = await findReplay(context, tool, params);
+    if (replay) return replay.result as T;
+
+    const confirmation = await context.confirmationStore.consume(await hashToken(token));
+
+    if (!confirmation || confirmation.account !== account || confirmation.expiresAt < now()) {
+      throw new ToolError(
+        'VALIDATION',
+        'Confirmation token is invalid or expired. Call again with preview: true for a new one.',
+        { fields: { confirmationToken: 'Invalid or expired' } }
+      );
+    }
+    if (confirmation.tool !== tool || confirmation.requestHash !== requestHash) {
+      throw new ToolError(
+        'VALIDATION',
+        `Confirmation token was issued for a different ${confirmation.tool} request. Call again with preview: true for a new one.`,
+        { fields: { confirmationToken: 'Issued for a different request' } }
+      );
+    }
+
+    return execute();
+  }
+
+  const { requireConfirmation } = await context.settingsStore.getAccountSettings(account);
+  if (params.preview !== true && !requireConfirmation) return execute();
+
+  const details = await preview();
+  const confirmationToken = generateToken();
+  const expiresAt = now() + CONFIRMATION_TTL;
+  await context.confirmationStore.create(await hashToken(confirmationToken), { account, tool, requestHash, expiresAt });
+
+  return {
+    preview: true,
+    ...(details as Record<string, unknown>),
+    confirmationToken,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+    message: `Nothing was changed yet. Read this back to the user and, once they agree, call ${tool} again with the same arguments and this confirmationToken.`,
+  };
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
@@ -0,0 +1,121 @@
+import { z } from 'zod';
+import { MeitreError, MeitreLoginError, RestaurantError } from '../lib/meitre.ts';
+
+// What went wrong, for the client to decide how to recover:
+// - VALIDATION: arguments are malformed or make no sense; fix the ones in `fields` and retry
+// - NOT_FOUND: the reservation, guest or restaurant doesn't exist or isn't visible to this account
+// - SLOT_UNAVAILABLE: the requested time can't be booked; offer the alternatives given instead
+// - CONFLICT: clashes with existing state (a duplicate booking, a reused idempotency key, several matching guests)
+// - POLICY_VIOLATION: the restaurant's booking settings forbid it; the guest should contact the restaurant
+// - RESTAURANT_AMBIGUOUS: the account has several restaurants; pass `restaurant`
+// - AUTH_FAILED: Meitre rejected the credentials; the user has to sign in again
+// - UPSTREAM_UNAVAILABLE: Meitre is down or unreachable; retrying later may work
+// - OUTCOME_UNKNOWN: an earlier call with the same idempotency key was interrupted; check what happened first
+// - INTERNAL: anything else
+export type ToolErrorCode =
+  | 'VALIDATION'
+  | 'NOT_FOUND'
+  | 'SLOT_UNAVAILABLE'
+  | 'CONFLICT'
+  | 'POLICY_VIOLATION'
+  | 'RESTAURANT_AMBIGUOUS'
+  | 'AUTH_FAILED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'OUTCOME_UNKNOWN'
+  | 'INTERNAL';
+
+interface ToolErrorDetails {
+  // Offending arguments, each with what's wrong with it
+  fields?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+// A tool failure that carries machine-readable details for the client, besides its message
+export class ToolError extends Error {
+  code: ToolErrorCode;
+  fields: Record<string, string>;
+  data: Record<string, unknown>;
+
+  constructor(code: ToolErrorCode, message: string, { fields = {}, ...data }: ToolErrorDetails = {}) {
+    super(message);
+    this.name = 'ToolError';
+    this.code = code;
+    this.fields = fields;
+    this.data = data;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(Object.keys(this.fields).length > 0 && { fields: this.fields }),
+      ...this.data,
+    };
+  }
+}
+
+// Classifies whatever a tool threw
+export function toToolError(error: unknown): ToolError {
+  if (error instanceof ToolError) return error;
+
+  if (error instanceof z.ZodError) {
+    const fields = Object.fromEntries(
+      error.issues.map((issue) => [issue.path.map(String).join('.') || 'arguments', issue.message])
+    );
+    const summary = Object.entries(fields)
+      .map(([field, problem]) => `${field}: ${problem}`)
+      .join('; ');
+    return new ToolError('VALIDATION', `Invalid arguments. ${summary}`, { fields });
+  }
+
+  if (error instanceof RestaurantError) {
+    const restaurants = error.restaurants.map((r) => ({ id: r.subdomainPrefix, name: r.name }));
+    if (error.reason === 'ambiguous') {
+      return new ToolError('RESTAURANT_AMBIGUOUS', error.message, {
+        fields: { restaurant: 'Required when the account has several restaurants' },
+        restaurants,
+      });
+    }
+    return new ToolError('NOT_FOUND', error.message, {
+      ...(error.reason === 'inaccessible' && { fields: { restaurant: "Not one of this account's restaurants" } }),
+      restaurants,
+    });
+  }
+
+  if (error instanceof MeitreError) {
+    const upstream = { status: error.status, body: parseBody(error.body) };
+
+    if (error.status === null || error.status >= 500 || error.status === 429) {
+      return new ToolError('UPSTREAM_UNAVAILABLE', error.message, { retryable: true, upstream });
+    }
+    // MeitreAPI retries a 401 with a fresh login, so only a failed login means the credentials are bad
+    if (error instanceof MeitreLoginError || error.status === 401) {
+      return new ToolError('AUTH_FAILED', 'Meitre rejected the credentials. Sign in to Meitre again.', { upstream });
+    }
+    // Logged in fine, but this account may not see what was asked for, typically another restaurant
+    if (error.status === 403) {
+      return new ToolError(
+        'NOT_FOUND',
+        "Meitre denied access. The restaurant may not be one of this account's; check it with list_restaurants.",
+        { fields: { restaurant: 'Possibly not accessible to this account' }, upstream }
+      );
+    }
+    if (error.status === 404) {
+      return new ToolError('NOT_FOUND', 'Meitre has no such record. Check the ids passed.', { upstream });
+    }
+    // Meitre's explanation stays in `upstream`: it may quote the guest's details, and messages are audited
+    return new ToolError('VALIDATION', `Meitre rejected the request (${error.status}). Its reason is in upstream.body.`, {
+      upstream,
+    });
+  }
+
+  return new ToolError('INTERNAL', error instanceof Error ? error.message : 'Unknown error');
+}
+
+function parseBody(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
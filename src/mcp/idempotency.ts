@@ -0,0 +1,106 @@
+import { hashToken } from '../lib/crypto.ts';
+import { ToolError } from './errors.ts';
+import type { ToolContext } from './tools.ts';
+
+// How long a stored result can be replayed, in seconds
+export const IDEMPOTENCY_TTL = 24 * 60 * 60;
+
+// Seconds a call may hold its key before it's taken as abandoned, e.g. by a Worker invocation
+// cancelled when its client disconnected
+export const IDEMPOTENCY_LEASE = 2 * 60;
+
+// Runs a mutating tool at most once per `idempotencyKey`. A retry with the same key and arguments
+// replays the stored result; the same key with different arguments is rejected.
+export async function withIdempotency<T>(
+  context: ToolContext,
+  tool: string,
+  params: Record<string, unknown>,
+  execute: () => Promise<T>
+): Promise<T> {
+  const key = params.idempotencyKey;
+  if (typeof key !== 'string' || !key) return execute();
+
+  const account = context.api.getAccount();
+  const requestHash = await hashRequest(context, params);
+
+  if (!(await context.idempotencyStore.claim(account, key, tool, requestHash))) {
+    const replay = await findReplay(context, tool, params);
+    // Released by a failed call since the claim was attempted
+    if (!replay) throw inProgress(tool, key);
+    return replay.result as T;
+  }
+
+  let result: T;
+  try {
+    result = await execute();
+  } catch (error) {
+    await context.idempotencyStore.release(account, key);
+    throw error;
+  }
+
+  try {
+    await context.idempotencyStore.complete(account, key, result);
+  } catch (e) {
+    // The call already reached Meitre: the claim must stay so a retry can't act twice, and a failed
+    // write must not hide the outcome
+    console.error('Idempotency result write failed', e);
+  }
+  return result;
+}
+
+// The stored result of an earlier call with the same `idempotencyKey`, if any. Throws when the key
+// was used for a different request, or its call hasn't finished or never will.
+export async function findReplay(
+  context: ToolContext,
+  tool: string,
+  params: Record<string, unknown>
+): Promise<{ result: unknown } | null> {
+  const key = params.idempotencyKey;
+  if (typeof key !== 'string' || !key) return null;
+
+  const record = await context.idempotencyStore.get(context.api.getAccount(), key);
+  if (!record) return null;
+
+  if (record.tool !== tool || record.requestHash !== (await hashRequest(context, params))) {
+    throw new ToolError(
+      'CONFLICT',
+      `Idempotency key "${key}" was already used for a different ${record.tool} request. Use a new key for a new request.`,
+      { fields: { idempotencyKey: 'Already used for a different request' } }
+    );
+  }
+  if (record.result === null) {
+    if (record.createdAt < Math.floor(Date.now() / 1000) - IDEMPOTENCY_LEASE) {
+      // Whether it reached Meitre can't be told from here; retrying blindly could act twice
+      throw new ToolError(
+        'OUTCOME_UNKNOWN',
+        `A ${tool} call with idempotency key "${key}" was interrupted, so it may or may not have gone through. Check with search_reservations before retrying with a new key.`,
+        { fields: { idempotencyKey: 'Interrupted call' } }
+      );
+    }
+    throw inProgress(tool, key);
+  }
+
+  return { result: record.result };
+}
+
+function inProgress(tool: string, key: string): ToolError {
+  return new ToolError('CONFLICT', `A ${tool} call with idempotency key "${key}" is still in progress. Retry shortly.`, {
+    retryable: true,
+  });
+}
+
+// Identifies what a mutating call would do: its arguments, minus the ones that only steer how it runs
+export async function hashRequest(context: ToolContext, params: Record<string, unknown>): Promise<string> {
+  const { idempotencyKey, preview, confirmationToken, ...request } = params;
+  // Resolved rather than read as-is, so a retry hashes the same whether or not the first call resolved it
+  return hashToken(canonicalJson({ ...request, restaurant: request.restaurant ?? (await context.api.getRestaurant()) }));
+}
+
+// JSON with object keys sorted, so equal arguments hash equally regardless of order
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) =>
+    typeof v === 'object' && v !== null && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : v
+  );
+}
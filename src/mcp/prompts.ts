@@ -0,0 +1,130 @@
+import { z } from 'zod';
+
+// Arguments are strings per the MCP spec; absent optionals are rendered as "not specified"
+const restaurantArg = {
+  restaurant: z
+    .string()
+    .optional()
+    .describe('Restaurant identifier. Optional if the account has a single restaurant.'),
+};
+
+function restaurantLine(restaurant?: string): string {
+  return restaurant
+    ? `Pass restaurant "${restaurant}" to every tool call.`
+    : 'If the account has several restaurants, call list_restaurants first and ask which one to use.';
+}
+
+interface PromptDefinition<S extends z.ZodObject> {
+  description: string;
+  arguments: S;
+  render: (args: z.infer<S>) => string;
+}
+
+type RenderResult = { success: true; text: string } | { success: false; issues: z.core.$ZodIssue[] };
+
+// Types each prompt's `render` by its own arguments schema, and pairs it with the validation it needs
+function definePrompt<S extends z.ZodObject>(prompt: PromptDefinition<S>) {
+  return {
+    ...prompt,
+    // Validates the arguments sent by the client, then renders the prompt with them
+    renderArguments(args: unknown): RenderResult {
+      const parsed = prompt.arguments.safeParse(args);
+      return parsed.success
+        ? { success: true, text: prompt.render(parsed.data) }
+        : { success: false, issues: parsed.error.issues };
+    },
+  };
+}
+
+export const prompts = {
+  book_table: definePrompt({
+    description: 'Book a table for a guest, checking availability before booking',
+    arguments: z.object({
+      ...restaurantArg,
+      partySize: z.string().describe('Number of guests'),
+      date: z.string().optional().describe('Preferred date (YYYY-MM-DD)'),
+      time: z.string().optional().describe('Preferred time (HH:MM)'),
+      serviceType: z.string().optional().describe('lunch or dinner'),
+      name: z.string().optional().describe('Guest name'),
+      phone: z.string().optional().describe('Guest phone number'),
+    }),
+    render: (args) => `Book a table for ${args.partySize} guests.
+
+Preferred date: ${args.date ?? 'not specified'}
+Preferred time: ${args.time ?? 'not specified'}
+Service: ${args.serviceType ?? 'not specified'}
+Guest name: ${args.name ?? 'not specified'}
+Guest phone: ${args.phone ?? 'not specified'}
+
+${restaurantLine(args.restaurant)}
+
+Follow these steps in order. Do not skip any of them:
+1. Call fetch_options to learn the restaurant's areas, service types and menus.
+2. Call fetch_dates with the party size and service type to find available dates.
+3. Call fetch_timeslots for the chosen date to find available times and the areas offered at each time. If the preferred date or time is taken, call find_next_availability to offer the closest alternatives.
+4. If the phone is known, call find_guest with it to prefill the name and email, and get_guest_history to greet regulars and spot frequent no-shows.
+5. Confirm date, time, area, name and phone with the user. Ask for anything that is missing.
+6. Call book_reservation only with a time and area returned by fetch_timeslots.`,
+  }),
+
+  reschedule_reservation: definePrompt({
+    description: "Find a guest's reservation by phone and move it to a new date or time",
+    arguments: z.object({
+      ...restaurantArg,
+      phone: z.string().describe('Guest phone number'),
+      date: z.string().optional().describe('New date (YYYY-MM-DD)'),
+      time: z.string().optional().describe('New time (HH:MM)'),
+      partySize: z.string().optional().describe('New number of guests, if it changes'),
+    }),
+    render: (args) => `Reschedule the reservation of the guest with phone ${args.phone}.
+
+New date: ${args.date ?? 'not specified'}
+New time: ${args.time ?? 'not specified'}
+New party size: ${args.partySize ?? 'unchanged'}
+
+${restaurantLine(args.restaurant)}
+
+Follow these steps in order. Do not skip any of them:
+1. Call search_reservations with the phone number. If there are several reservations, ask the user which one to move.
+2. Call fetch_options to learn the restaurant's areas, service types and menus.
+3. Call fetch_dates with the party size and service type to check the new date is available.
+4. Call fetch_timeslots for the new date to find available times and areas.
+5. Call reschedule_reservation with the reservation id and preview: true, keeping the guest's name, phone and email from the search result.
+6. Read back the change and ask the user to confirm.
+7. Only after the user confirms, call reschedule_reservation again with the same arguments and the confirmationToken from the preview.`,
+  }),
+
+  cancel_by_phone: definePrompt({
+    description: "Find a guest's reservation by phone and cancel it",
+    arguments: z.object({
+      ...restaurantArg,
+      phone: z.string().describe('Guest phone number'),
+      date: z.string().optional().describe('Date of the reservation to cancel (YYYY-MM-DD), if known'),
+    }),
+    render: (args) =>
+      `Cancel the reservation of the guest with phone ${args.phone}${args.date ? ` on ${args.date}` : ''}.
+
+${restaurantLine(args.restaurant)}
+
+Follow these steps in order. Do not skip any of them:
+1. Call search_reservations with the phone number.
+2. Pick the matching reservation. If there is more than one candidate, ask the user which one to cancel.
+3. Call cancel_reservation with the reservation id, the phone number and preview: true.
+4. Read back the reservation (date, time, name, party size) and ask the user to confirm.
+5. Only after the user confirms, call cancel_reservation again with the same arguments and the confirmationToken from the preview.`,
+  }),
+};
+
+export type PromptName = keyof typeof prompts;
+
+export function listPrompts() {
+  return Object.entries(prompts).map(([name, prompt]) => ({
+    name,
+    description: prompt.description,
+    arguments: Object.entries(prompt.arguments.shape).map(([argName, schema]) => ({
+      name: argName,
+      description: schema.description,
+      required: !schema.safeParse(undefined).success,
+    })),
+  }));
+}
@@ -0,0 +1,100 @@
+import type { ToolContext } from './tools.ts';
+
+const MIME_TYPE = 'application/json';
+
+export const RESTAURANTS_URI = 'meitre://restaurants';
+
+// Per-restaurant configuration, addressed as meitre://{restaurant}/{name}
+export const resourceTemplates = {
+  areas: {
+    description: 'Dining areas of the restaurant',
+    read: async (context: ToolContext) => {
+      const res = await context.api.getAreas();
+      return res.areas.map((a) => ({
+        id: a.id,
+        name: a.name,
+        description: a.description,
+      }));
+    },
+  },
+
+  menus: {
+    description: 'Active menus of the restaurant',
+    read: async (context: ToolContext) => {
+      const res = await context.api.getMenus();
+      return res.menus.map((m) => ({
+        id: m.id,
+        name: m.name,
+        description: m.description,
+        price: m.price,
+      }));
+    },
+  },
+
+  'service-types': {
+    description: 'Service types (lunch, dinner) offered by the restaurant',
+    read: async (context: ToolContext) => {
+      const res = await context.api.getServiceTypes();
+      return res.serviceTypes;
+    },
+  },
+};
+
+export type ResourceTemplateName = keyof typeof resourceTemplates;
+
+export function listResourceTemplates() {
+  return Object.entries(resourceTemplates).map(([name, template]) => ({
+    uriTemplate: `meitre://{restaurant}/${name}`,
+    name,
+    description: template.description,
+    mimeType: MIME_TYPE,
+  }));
+}
+
+export async function listResources(context: ToolContext) {
+  const restaurants = await context.api.listRestaurants();
+
+  return [
+    {
+      uri: RESTAURANTS_URI,
+      name: 'restaurants',
+      description: 'Restaurants accessible to this account',
+      mimeType: MIME_TYPE,
+    },
+    ...restaurants.flatMap((r) =>
+      Object.entries(resourceTemplates).map(([name, template]) => ({
+        uri: `meitre://${r.subdomainPrefix}/${name}`,
+        name: `${r.name} ${name}`,
+        description: template.description,
+        mimeType: MIME_TYPE,
+      }))
+    ),
+  ];
+}
+
+// Returns null when the URI doesn't name a known resource
+export async function readResource(context: ToolContext, uri: string) {
+  let data: unknown;
+
+  if (uri === RESTAURANTS_URI) {
+    data = await context.api.listRestaurants();
+  } else {
+    const match = uri.match(/^meitre:\/\/([^/]+)\/([^/]+)$/);
+    if (!match || !Object.hasOwn(resourceTemplates, match[2])) return null;
+
+    const template = resourceTemplates[match[2] as ResourceTemplateName];
+
+    // The URI names the restaurant explicitly, so it takes precedence over the header
+    data = await template.read({ ...context, api: context.api.forRestaurant(decodeURIComponent(match[1])) });
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: MIME_TYPE,
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
@@ -1,16 +1,26 @@
 import { z } from 'zod';
 import { tools, type ToolName, type ToolContext } from './tools.ts';
+import { listResources, listResourceTemplates, readResource } from './resources.ts';
+import { prompts, listPrompts, type PromptName } from './prompts.ts';
+import { withAudit } from './audit.ts';
+import { withIdempotency } from './idempotency.ts';
+import { withConfirmation } from './confirmation.ts';
+import { toToolError } from './errors.ts';
+
+// Newest first; the first entry is offered when the client asks for an unknown version
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
 
 export interface McpHttpRequest {
   jsonrpc: '2.0';
-  id: string | number;
+  // Absent for notifications
+  id?: string | number;
   method: string;
   params?: unknown;
 }
 
 export interface McpHttpResponse {
   jsonrpc: '2.0';
-  id: string | number;
+  id: string | number | null;
   result?: unknown;
   error?: {
     code: number;
@@ -19,28 +29,88 @@ export interface McpHttpResponse {
   };
 }
 
+export function isNotification(message: McpHttpRequest): boolean {
+  return !('id' in message);
+}
+
+export function negotiateProtocolVersion(requested: unknown): string {
+  return typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+    ? requested
+    : SUPPORTED_PROTOCOL_VERSIONS[0];
+}
+
+// Returns null for notifications and client responses, which get no reply
 export async function handleMcpRequest(
-  request: McpHttpRequest,
+  message: unknown,
   context: ToolContext
-): Promise<McpHttpResponse> {
+): Promise<McpHttpResponse | null> {
+  if (!isObject(message) || message.jsonrpc !== '2.0') {
+    return {
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32600, message: 'Invalid Request' },
+    };
+  }
+
+  // Responses to server-initiated requests; we never send any, so there is nothing to match
+  if (!('method' in message) && ('result' in message || 'error' in message)) {
+    return null;
+  }
+
+  if (typeof message.method !== 'string') {
+    return {
+      jsonrpc: '2.0',
+      id: isValidId(message.id) ? message.id : null,
+      error: { code: -32600, message: 'Invalid Request' },
+    };
+  }
+
+  const request = message as unknown as McpHttpRequest;
+
+  if (isNotification(request)) {
+    // notifications/initialized, notifications/cancelled, ... require no action
+    return null;
+  }
+
+  if (!isValidId(request.id)) {
+    return {
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32600, message: 'Invalid Request: id must be a string or number' },
+    };
+  }
+
+  const id = request.id;
+
   try {
     if (request.method === 'initialize') {
+      const params = (request.params ?? {}) as { protocolVersion?: unknown };
       return {
         jsonrpc: '2.0',
-        id: request.id,
+        id,
         result: {
-          protocolVersion: '2024-11-05',
+          protocolVersion: negotiateProtocolVersion(params.protocolVersion),
           serverInfo: {
             name: 'meitre-mcp',
             version: '0.1.0',
           },
           capabilities: {
             tools: {},
+            resources: {},
+            prompts: {},
           },
         },
       };
     }
 
+    if (request.method === 'ping') {
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {},
+      };
+    }
+
     if (request.method === 'tools/list') {
       const toolList = Object.entries(tools).map(([name, tool]) => ({
         name,
@@ -50,20 +120,136 @@ export async function handleMcpRequest(
 
       return {
         jsonrpc: '2.0',
-        id: request.id,
+        id,
         result: { tools: toolList },
       };
     }
 
+    if (request.method === 'resources/list') {
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: { resources: await listResources(context) },
+      };
+    }
+
+    if (request.method === 'resources/templates/list') {
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: { resourceTemplates: listResourceTemplates() },
+      };
+    }
+
+    if (request.method === 'resources/read') {
+      const params = (request.params ?? {}) as { uri?: unknown };
+
+      if (typeof params.uri !== 'string') {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32602,
+            message: 'Invalid params: uri is required',
+          },
+        };
+      }
+
+      const result = await readResource(context, params.uri);
+
+      if (!result) {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32002,
+            message: 'Resource not found',
+            data: { uri: params.uri },
+          },
+        };
+      }
+
+      return {
+        jsonrpc: '2.0',
+        id,
+        result,
+      };
+    }
+
+    if (request.method === 'prompts/list') {
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: { prompts: listPrompts() },
+      };
+    }
+
+    if (request.method === 'prompts/get') {
+      const params = (request.params ?? {}) as { name?: string; arguments?: Record<string, unknown> };
+      const promptName = params.name as PromptName;
+
+      if (!promptName || !Object.hasOwn(prompts, promptName)) {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32602,
+            message: `Unknown prompt: ${promptName}`,
+          },
+        };
+      }
+
+      const prompt = prompts[promptName];
+      const rendered = prompt.renderArguments(params.arguments ?? {});
+
+      if (!rendered.success) {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32602,
+            message: `Invalid arguments for prompt ${promptName}`,
+            data: rendered.issues,
+          },
+        };
+      }
+
+      return {
+        jsonrpc: '2.0',
+        id,
+        result: {
+          description: prompt.description,
+          messages: [
+            {
+              role: 'user',
+              content: { type: 'text', text: rendered.text },
+            },
+          ],
+        },
+      };
+    }
+
     if (request.method === 'tools/call') {
-      const params = request.params as { name: string; arguments?: Record<string, unknown> };
+      const params = (request.params ?? {}) as { name?: unknown; arguments?: Record<string, unknown> };
+
+      if (typeof params.name !== 'string') {
+        return {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: -32602,
+            message: 'Invalid params: name is required',
+          },
+        };
+      }
+
       const toolName = params.name as ToolName;
-      const tool = tools[toolName];
+      const tool = Object.hasOwn(tools, toolName) ? tools[toolName] : undefined;
 
       if (!tool) {
         return {
           jsonrpc: '2.0',
-          id: request.id,
+          id,
           error: {
             code: -32601,
             message: `Unknown tool: ${toolName}`,
@@ -74,18 +260,55 @@ export async function handleMcpRequest(
       const args = params.arguments ?? {};
 
       // Tool arg `restaurant` only applies if the header didn't already set one
-      if (!context.hasHeaderRestaurant && typeof args.restaurant === 'string' && args.restaurant) {
-        context.api.setRestaurant(args.restaurant);
-      }
+      const toolContext: ToolContext =
+        !context.hasHeaderRestaurant && typeof args.restaurant === 'string' && args.restaurant
+          ? { ...context, api: context.api.forRestaurant(args.restaurant) }
+          : context;
 
-      const toolParams = tool.parameters.parse(args);
-      const result = await tool.execute(context, toolParams as any);
+      // Failures of the tool itself, including invalid arguments, are results the model can act on
+      // rather than protocol errors
+      let result: unknown;
+      try {
+        const toolParams = tool.parameters.parse(args);
+        const execute = (): Promise<unknown> => tool.execute(toolContext, toolParams as any);
+        const audited = () => ('audit' in tool ? withAudit(toolContext, toolName, args, execute) : execute());
+        // Replays are outside the audit, since they don't reach Meitre
+        const idempotent = () =>
+          'idempotent' in tool ? withIdempotency(toolContext, toolName, toolParams, audited) : audited();
+        // Previews neither reach Meitre's write endpoints nor claim idempotency keys
+        result =
+          'confirm' in tool
+            ? await withConfirmation(
+                toolContext,
+                toolName,
+                toolParams,
+                () => tool.preview(toolContext, toolParams as any),
+                idempotent
+              )
+            : await idempotent();
+      } catch (error) {
+        const failure = { error: toToolError(error).toJSON() };
+        return {
+          jsonrpc: '2.0',
+          id,
+          result: {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(failure, null, 2),
+              },
+            ],
+            structuredContent: failure,
+            isError: true,
+          },
+        };
+      }
 
       const structuredContent = Array.isArray(result) ? { items: result } : result;
 
       return {
         jsonrpc: '2.0',
-        id: request.id,
+        id,
         result: {
           content: [
             {
@@ -100,7 +323,7 @@ export async function handleMcpRequest(
 
     return {
       jsonrpc: '2.0',
-      id: request.id,
+      id,
       error: {
         code: -32601,
         message: `Method not found: ${request.method}`,
@@ -110,7 +333,7 @@ export async function handleMcpRequest(
     const message = error instanceof Error ? error.message : 'Unknown error';
     return {
       jsonrpc: '2.0',
-      id: request.id,
+      id,
       error: {
         code: -32603,
         message,
@@ -118,3 +341,11 @@ export async function handleMcpRequest(
     };
   }
 }
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidId(id: unknown): id is string | number {
+  return typeof id === 'string' || typeof id === 'number';
+}
@@ -1,9 +1,31 @@
 import { z } from 'zod';
-import type { MeitreAPI } from '../lib/meitre.ts';
+import {
+  RestaurantError,
+  type MeitreAPI,
+  type MeitreClient,
+  type MeitreReservation,
+  type ReservationSearchFilters,
+} from '../lib/meitre.ts';
+import { localDate, localTime, addDays, resolveDate, toZonedIso, meitreDate, meitreTime } from '../lib/dates.ts';
+import { countryForTimezone, normalizePhone, phoneVariants } from '../lib/phone.ts';
+import { mapWithConcurrency } from '../lib/concurrency.ts';
+import { verifySlot } from './availability.ts';
+import { ToolError, toToolError } from './errors.ts';
+import type {
+  AuditLog,
+  IdempotencyStore,
+  ConfirmationStore,
+  SettingsStore,
+  RestaurantSettings,
+} from '../store/index.ts';
 
 export interface ToolContext {
   api: MeitreAPI;
   hasHeaderRestaurant: boolean;
+  auditLog: AuditLog;
+  idempotencyStore: IdempotencyStore;
+  confirmationStore: ConfirmationStore;
+  settingsStore: SettingsStore;
 }
 
 const restaurantParam = {
@@ -15,6 +37,271 @@ const restaurantParam = {
     ),
 };
 
+const idempotencyParam = {
+  idempotencyKey: z
+    .string()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe(
+      'Unique key for this request, e.g. a UUID. Retrying with the same key and arguments returns the original result instead of acting twice.'
+    ),
+};
+
+// Timeslot lookups in flight at once when searching across dates
+const AVAILABILITY_CONCURRENCY = 4;
+
+// Minutes added to a slot's distance for each preference (area, menu) it doesn't meet
+const PREFERENCE_PENALTY = 120;
+
+const DATE_FORMAT =
+  'YYYY-MM-DD, or an expression like "today", "tomorrow", "this Saturday", "next Friday" or "in 2 weeks" (English or Spanish, e.g. "mañana", "el próximo viernes")';
+
+// Resolves a date argument against the restaurant's calendar
+async function resolveDateParam(context: ToolContext, date: string, field = 'date'): Promise<string> {
+  return parseDateArg(date, localDate(await context.api.getTimezone()), field);
+}
+
+// resolveDate, failing as invalid input for the argument `field`
+function parseDateArg(expression: string, today: string, field: string): string {
+  try {
+    return resolveDate(expression, today);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid date';
+    throw new ToolError('VALIDATION', message, { fields: { [field]: message } });
+  }
+}
+
+// Phone numbers without a country code are local to the restaurant
+async function normalizePhoneParam(context: ToolContext, phone: string): Promise<string> {
+  return normalizePhone(phone, countryForTimezone(await context.api.getTimezone()));
+}
+
+// Meitre matches phones as typed, so search every form the number may have been stored in
+async function searchByPhone(
+  context: ToolContext,
+  phone: string,
+  filters?: ReservationSearchFilters
+): Promise<MeitreReservation[]> {
+  const variants = phoneVariants(phone, countryForTimezone(await context.api.getTimezone()));
+  const results = await Promise.all(variants.map((v) => context.api.searchReservations(v, filters)));
+
+  const reservations = new Map<number, MeitreReservation>();
+  for (const r of results.flatMap((res) => res.data.reservations)) {
+    reservations.set(r.id, r);
+  }
+  return [...reservations.values()];
+}
+
+const bookingDetailsParams = {
+  notes: z.string().optional().describe('Free-text notes for the restaurant, e.g. occasion or seating requests'),
+  allergies: z.string().optional().describe('Allergies or dietary restrictions, as told by the guest'),
+  kids: z.number().int().min(0).optional().describe('How many of the guests are children'),
+  vegetarians: z.number().int().min(0).optional().describe('How many of the guests are vegetarian'),
+  pets: z.boolean().optional().describe('Whether the guests bring a pet'),
+  language: z.enum(['es', 'en', 'pt']).optional().describe("Guest's language for confirmations. Defaults to es."),
+};
+
+interface BookingDetails {
+  notes?: string;
+  allergies?: string;
+  kids?: number;
+  vegetarians?: number;
+  pets?: boolean;
+  language?: 'es' | 'en' | 'pt';
+}
+
+// Meitre's reservation fields for the details given; absent ones are left out
+function toDetailsPayload(details: BookingDetails): Record<string, unknown> {
+  const payload: Record<string, unknown> = {};
+  if (details.notes !== undefined) payload.notes = details.notes;
+  if (details.allergies !== undefined) {
+    payload.allergies = details.allergies;
+    payload.restrictions = details.allergies.trim() !== '';
+  }
+  if (details.kids !== undefined) {
+    payload.howManyKids = details.kids;
+    payload.kids = details.kids > 0;
+  }
+  if (details.vegetarians !== undefined) {
+    payload.howManyVeggie = details.vegetarians;
+    payload.veggie = details.vegetarians > 0;
+  }
+  if (details.pets !== undefined) payload.pets = details.pets;
+  if (details.language !== undefined) payload.defaultLang = details.language;
+  return payload;
+}
+
+// Makes sure the restaurant is one this account can manage, for data kept per restaurant on our side
+async function assertRestaurantAccess(context: ToolContext): Promise<string> {
+  const restaurant = await context.api.getRestaurant();
+  const restaurants = await context.api.listRestaurants();
+  if (!restaurants.some((r) => r.subdomainPrefix === restaurant)) {
+    throw new RestaurantError(`Restaurant not accessible to this account: ${restaurant}`, 'inaccessible', restaurants);
+  }
+  return restaurant;
+}
+
+// Applies the restaurant's settings to a booking or reschedule, rejecting what its policy forbids
+async function applyBookingPolicy(
+  context: ToolContext,
+  params: { partySize: number; date: string; areaId?: number; language?: string }
+) {
+  const [settings, timeZone] = await Promise.all([
+    context.settingsStore.getRestaurantSettings(context.api.getAccount(), await context.api.getRestaurant()),
+    context.api.getTimezone(),
+  ]);
+  const today = localDate(timeZone);
+  const date = parseDateArg(params.date, today, 'date');
+
+  if (settings.maxPartySize !== null && params.partySize > settings.maxPartySize) {
+    throw new ToolError(
+      'POLICY_VIOLATION',
+      `Parties of more than ${settings.maxPartySize} can't be booked online. The guest should contact the restaurant.`,
+      { fields: { partySize: `At most ${settings.maxPartySize}` } }
+    );
+  }
+  if (settings.bookingHorizonDays !== null && date > addDays(today, settings.bookingHorizonDays)) {
+    const lastDate = addDays(today, settings.bookingHorizonDays);
+    throw new ToolError(
+      'POLICY_VIOLATION',
+      `Bookings are only accepted up to ${settings.bookingHorizonDays} days ahead, until ${lastDate}.`,
+      { fields: { date: `On or before ${lastDate}` } }
+    );
+  }
+
+  const areaId = params.areaId ?? settings.defaultAreaId ?? (await context.api.getAreas()).areas[0]?.id;
+  if (areaId === undefined) {
+    throw new ToolError('NOT_FOUND', 'The restaurant has no areas to book');
+  }
+
+  return {
+    date,
+    areaId,
+    language: params.language ?? settings.defaultLanguage ?? 'es',
+    publicOrHold: settings.publicOrHold,
+  };
+}
+
+const confirmationParams = {
+  preview: z
+    .boolean()
+    .optional()
+    .describe('Only describe what would change and return a confirmationToken, without changing anything.'),
+  confirmationToken: z
+    .string()
+    .optional()
+    .describe('Token from a preview of this exact call. Required when the account enforces confirmation.'),
+};
+
+// Dates and times are the restaurant's local ones; `startsAt` carries the offset
+function toReservationSummary(r: MeitreReservation, timeZone: string) {
+  const date = meitreDate(r.resDate);
+  const time = meitreTime(r.resTime);
+  return {
+    id: r.id,
+    uniqueId: r.uniqueId,
+    status: r.status,
+    date,
+    time,
+    startsAt: toZonedIso(date, time, timeZone),
+    name: r.guestName,
+    phone: r.guestPhone,
+    email: r.guestEmail,
+    partySize: r.partySize,
+    area: { id: r.areaId, name: r.area },
+    menu: { id: r.menuId, name: r.menu },
+  };
+}
+
+// Reservations that didn't end in the guest showing up
+const NO_SHOW_STATUSES = ['no-show', 'noshow'];
+
+// Guests with at least this many no-shows, and this share of their past reservations, are flagged
+const FREQUENT_NO_SHOWS = 2;
+const FREQUENT_NO_SHOW_RATE = 0.25;
+
+// Searches the restaurant's guests by name, email or phone; phones are tried in every stored form
+async function searchGuests(context: ToolContext, query: string): Promise<MeitreClient[]> {
+  const isPhone = /^[\d\s()+.-]+$/.test(query) && query.replace(/\D/g, '').length >= 6;
+  const terms = isPhone
+    ? phoneVariants(query, countryForTimezone(await context.api.getTimezone()))
+    : [query.trim()];
+  const results = await Promise.all(terms.map((t) => context.api.searchClients(t)));
+
+  const clients = new Map<number, MeitreClient>();
+  for (const c of results.flatMap((res) => res.clients)) clients.set(c.id, c);
+  return [...clients.values()];
+}
+
+// The most frequent value, or null for an empty list
+function mostCommon<T>(values: T[]): T | null {
+  const counts = new Map<T, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let best: T | null = null;
+  for (const [value, count] of counts) {
+    if (best === null || count > counts.get(best)!) best = value;
+  }
+  return best;
+}
+
+// The guest's other active reservations on a date, by phone or email
+async function findConflicts(context: ToolContext, date: string, phone: string, email?: string) {
+  const filters: ReservationSearchFilters = { from: date, to: date, statuses: ['booked'] };
+  const [byPhone, byEmail] = await Promise.all([
+    searchByPhone(context, phone, filters),
+    email
+      ? context.api
+          .searchReservations(email, filters)
+          .then((res) => res.data.reservations.filter((r) => r.guestEmail?.toLowerCase() === email.toLowerCase()))
+      : [],
+  ]);
+
+  const conflicts = new Map<number, MeitreReservation>();
+  for (const r of [...byPhone, ...byEmail]) conflicts.set(r.id, r);
+  return [...conflicts.values()];
+}
+
+// Lowercase without accents, for lenient name matching
+function foldText(text: string): string {
+  return text.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase();
+}
+
+// Result of a booking, reschedule or cancellation
+function toBookingResult(
+  reservation: { id: number; status: string; resDate: string; resTime: string; guestName: string; partySize: number },
+  timeZone: string
+) {
+  const date = meitreDate(reservation.resDate);
+  const time = meitreTime(reservation.resTime);
+  return {
+    id: reservation.id,
+    status: reservation.status,
+    date,
+    time,
+    startsAt: toZonedIso(date, time, timeZone),
+    name: reservation.guestName,
+    partySize: reservation.partySize,
+  };
+}
+
+// Meitre has no lookup by id, so search by phone when known and by the id itself otherwise
+async function findReservation(context: ToolContext, reservationId: number, phone?: string) {
+  const [reservations, timeZone] = await Promise.all([
+    phone
+      ? searchByPhone(context, phone)
+      : context.api.searchReservations(String(reservationId)).then((res) => res.data.reservations),
+    context.api.getTimezone(),
+  ]);
+  const reservation = reservations.find((r) => r.id === reservationId);
+  if (!reservation) {
+    throw new ToolError('NOT_FOUND', `Reservation ${reservationId} not found`, {
+      fields: { reservationId: phone ? 'No reservation with this id for that phone' : 'No reservation with this id' },
+    });
+  }
+  return toReservationSummary(reservation, timeZone);
+}
+
 export const tools = {
   list_restaurants: {
     description:
@@ -55,7 +342,7 @@ export const tools = {
 
   fetch_dates: {
     description:
-      'Fetch available dates for a reservation for the next 15 days from today (or a custom start date). Filter by areaId and/or menuId when specifically asked.',
+      'Fetch available dates for a reservation for the next 15 days from today in the restaurant timezone (or a custom start date). Filter by areaId and/or menuId when specifically asked.',
     parameters: z.object({
       ...restaurantParam,
       partySize: z.number(),
@@ -65,7 +352,7 @@ export const tools = {
       startDate: z
         .string()
         .optional()
-        .describe('Start date in YYYY-MM-DD format. Defaults to today.'),
+        .describe(`Start date: ${DATE_FORMAT}. Defaults to today in the restaurant's timezone.`),
     }),
     execute: async (
       context: ToolContext,
@@ -84,16 +371,18 @@ export const tools = {
         menuId: params.menuId,
       });
 
-      const startDate = params.startDate ? +new Date(params.startDate) : Date.now();
-      const endDate = startDate + 15 * 24 * 60 * 60 * 1000;
+      // Calendar dates are local to the restaurant, so compare them as dates, not instants
+      const startDate = await resolveDateParam(context, params.startDate ?? 'today', 'startDate');
+      const endDate = addDays(startDate, 15);
 
-      return res.data.calendar
-        .filter((d) => d.isAvailable)
-        .filter((d) => {
-          const ts = +new Date(d.date);
-          return ts >= startDate && ts <= endDate;
-        })
-        .map((d) => d.date.split('T')[0]);
+      return {
+        from: startDate,
+        to: endDate,
+        dates: res.data.calendar
+          .filter((d) => d.isAvailable)
+          .map((d) => meitreDate(d.date))
+          .filter((date) => date >= startDate && date <= endDate),
+      };
     },
   },
 
@@ -103,7 +392,7 @@ export const tools = {
     parameters: z.object({
       ...restaurantParam,
       partySize: z.number(),
-      date: z.string().describe('Date in YYYY-MM-DD format'),
+      date: z.string().describe(`Date: ${DATE_FORMAT}`),
       serviceType: z.enum(['lunch', 'dinner']),
       areaId: z.number().optional(),
       menuId: z.number().optional(),
@@ -118,61 +407,498 @@ export const tools = {
         menuId?: number;
       }
     ) => {
-      const res = await context.api.getTimeslots({
-        partySize: params.partySize,
-        date: params.date,
-        serviceType: params.serviceType,
-        areaId: params.areaId,
-        menuId: params.menuId,
-      });
+      const date = await resolveDateParam(context, params.date);
+      const [res, timeZone] = await Promise.all([
+        context.api.getTimeslots({
+          partySize: params.partySize,
+          date,
+          serviceType: params.serviceType,
+          areaId: params.areaId,
+          menuId: params.menuId,
+        }),
+        context.api.getTimezone(),
+      ]);
 
-      return res.data.center.slots.map((s) => ({
-        hour: s.hour,
-        areas: s.availableAreas.map((a) => ({ id: a.id, name: a.name })),
-        menus: s.menus.map((m) => ({ id: m.id, name: m.name })),
-      }));
+      return {
+        date,
+        slots: res.data.center.slots.map((s) => ({
+          hour: s.hour,
+          startsAt: toZonedIso(date, s.hour.slice(0, 5), timeZone),
+          areas: s.availableAreas.map((a) => ({ id: a.id, name: a.name })),
+          menus: s.menus.map((m) => ({ id: m.id, name: m.name })),
+        })),
+      };
+    },
+  },
+
+  find_next_availability: {
+    description:
+      'Find the available slots closest to a preferred date and time, searching the days around it for lunch and dinner. Use it instead of calling fetch_dates and fetch_timeslots date by date. Results are ranked by distance from the preferred time; slots without the preferred area or menu rank lower.',
+    parameters: z.object({
+      ...restaurantParam,
+      partySize: z.number(),
+      date: z.string().describe(`Preferred date: ${DATE_FORMAT}`),
+      time: z
+        .string()
+        .regex(/^\d{2}:\d{2}$/)
+        .optional()
+        .describe('Preferred time in HH:MM format. Without it, only the distance in days counts.'),
+      flexibilityDays: z
+        .number()
+        .int()
+        .min(0)
+        .max(14)
+        .default(3)
+        .describe('How many days before and after the preferred date to search'),
+      serviceType: z.enum(['lunch', 'dinner']).optional().describe('Only this service. Defaults to all.'),
+      areaId: z.number().optional().describe('Preferred area'),
+      menuId: z.number().optional().describe('Preferred menu'),
+      limit: z.number().int().min(1).max(50).default(10),
+    }),
+    execute: async (
+      context: ToolContext,
+      params: {
+        partySize: number;
+        date: string;
+        time?: string;
+        flexibilityDays: number;
+        serviceType?: 'lunch' | 'dinner';
+        areaId?: number;
+        menuId?: number;
+        limit: number;
+      }
+    ) => {
+      const date = await resolveDateParam(context, params.date);
+      const timeZone = await context.api.getTimezone();
+      const serviceTypes = params.serviceType
+        ? [params.serviceType]
+        : (await context.api.getServiceTypes()).serviceTypes;
+
+      const today = localDate(timeZone);
+      const now = localTime(timeZone);
+      const earliest = addDays(date, -params.flexibilityDays);
+      const from = earliest > today ? earliest : today;
+      const to = addDays(date, params.flexibilityDays);
+
+      // Preferences only rank slots, so search without them
+      const calendars = await Promise.all(
+        serviceTypes.map((serviceType) => context.api.getCalendar({ partySize: params.partySize, serviceType }))
+      );
+      const candidates = serviceTypes.flatMap((serviceType, i) =>
+        calendars[i].data.calendar
+          .filter((d) => d.isAvailable)
+          .map((d) => meitreDate(d.date))
+          .filter((d) => d >= from && d <= to)
+          .map((d) => ({ serviceType, date: d }))
+      );
+
+      const timeslots = await mapWithConcurrency(candidates, AVAILABILITY_CONCURRENCY, (candidate) =>
+        context.api.getTimeslots({ partySize: params.partySize, ...candidate })
+      );
+
+      const preferred = Date.parse(`${date}T${params.time ?? '00:00'}:00Z`);
+      const alternatives = candidates.flatMap((candidate, i) =>
+        timeslots[i].data.center.slots
+          // Today's slots that have already started can't be booked
+          .filter((s) => candidate.date !== today || s.hour.slice(0, 5) > now)
+          .map((s) => {
+            const time = s.hour.slice(0, 5);
+            // Local wall-clock times compared as if UTC; DST shifts don't matter for ranking
+            const slot = Date.parse(`${candidate.date}T${params.time ? time : '00:00'}:00Z`);
+            const distanceMinutes = Math.abs(slot - preferred) / 60_000;
+            const areaMatches = params.areaId === undefined || s.availableAreas.some((a) => a.id === params.areaId);
+            const menuMatches = params.menuId === undefined || s.menus.some((m) => m.id === params.menuId);
+
+            return {
+              date: candidate.date,
+              time,
+              startsAt: toZonedIso(candidate.date, time, timeZone),
+              serviceType: candidate.serviceType,
+              distanceMinutes,
+              matchesPreferences: areaMatches && menuMatches,
+              score: distanceMinutes + (areaMatches ? 0 : PREFERENCE_PENALTY) + (menuMatches ? 0 : PREFERENCE_PENALTY),
+              areas: s.availableAreas.map((a) => ({ id: a.id, name: a.name })),
+              menus: s.menus.map((m) => ({ id: m.id, name: m.name })),
+            };
+          })
+      );
+
+      return {
+        requested: { date, time: params.time ?? null, from, to },
+        alternatives: alternatives
+          .sort((a, b) => a.score - b.score || a.startsAt.localeCompare(b.startsAt))
+          .slice(0, params.limit),
+      };
+    },
+  },
+
+  find_availability_across_restaurants: {
+    description:
+      "Check availability on a date at every restaurant of the account, or a chosen subset, grouped by restaurant with its name and address. Use it when the guest doesn't mind which venue.",
+    parameters: z.object({
+      restaurants: z
+        .array(z.string())
+        .optional()
+        .describe('Restaurant identifiers to check, from list_restaurants. Defaults to all of them.'),
+      partySize: z.number(),
+      date: z.string().describe(`Date: ${DATE_FORMAT}. Relative dates are resolved in each restaurant's timezone.`),
+      time: z
+        .string()
+        .regex(/^\d{2}:\d{2}$/)
+        .optional()
+        .describe('Preferred time in HH:MM format. Slots are sorted by distance from it.'),
+      serviceType: z.enum(['lunch', 'dinner']).optional().describe('Only this service. Defaults to all.'),
+    }),
+    execute: async (
+      context: ToolContext,
+      params: {
+        restaurants?: string[];
+        partySize: number;
+        date: string;
+        time?: string;
+        serviceType?: 'lunch' | 'dinner';
+      }
+    ) => {
+      const accessible = await context.api.listRestaurants();
+      const selected = params.restaurants ?? accessible.map((r) => r.subdomainPrefix);
+
+      return mapWithConcurrency(selected, AVAILABILITY_CONCURRENCY, async (restaurant) => {
+        const venue = accessible.find((r) => r.subdomainPrefix === restaurant);
+        if (!venue) {
+          return {
+            restaurant,
+            error: new ToolError('NOT_FOUND', `Restaurant not accessible to this account: ${restaurant}`).toJSON(),
+          };
+        }
+
+        const api = context.api.forRestaurant(restaurant);
+        const summary = { restaurant, name: venue.name, address: venue.address };
+
+        // One venue failing shouldn't hide the others
+        try {
+          const date = parseDateArg(params.date, localDate(venue.timezone), 'date');
+          const serviceTypes = params.serviceType
+            ? [params.serviceType]
+            : (await api.getServiceTypes()).serviceTypes;
+
+          const timeslots = await Promise.all(
+            serviceTypes.map((serviceType) => api.getTimeslots({ partySize: params.partySize, date, serviceType }))
+          );
+
+          const slots = serviceTypes.flatMap((serviceType, i) =>
+            timeslots[i].data.center.slots.map((s) => {
+              const time = s.hour.slice(0, 5);
+              return {
+                serviceType,
+                time,
+                startsAt: toZonedIso(date, time, venue.timezone),
+                areas: s.availableAreas.map((a) => ({ id: a.id, name: a.name })),
+              };
+            })
+          );
+
+          const distance = (time: string) =>
+            params.time ? Math.abs(Date.parse(`${date}T${time}:00Z`) - Date.parse(`${date}T${params.time}:00Z`)) : 0;
+
+          return {
+            ...summary,
+            date,
+            slots: slots.sort((a, b) => distance(a.time) - distance(b.time) || a.time.localeCompare(b.time)),
+          };
+        } catch (error) {
+          return { ...summary, error: toToolError(error).toJSON() };
+        }
+      });
     },
   },
 
   search_reservations: {
-    description: 'Search for reservations by phone number. Returns only booked (active) reservations.',
+    description:
+      'Search reservations by guest phone, name or email, or look one up by id or uniqueId. Filter by date range and status; only booked (active) reservations are returned unless another status is asked for, except when looking up by id or uniqueId. Results are sorted by date and paginated.',
     parameters: z.object({
       ...restaurantParam,
-      phone: z.string().describe('Phone number to search for'),
+      phone: z
+        .string()
+        .optional()
+        .describe('Phone number to search for, in any format. Numbers without a country code are taken as local.'),
+      name: z.string().optional().describe('Guest name, or part of it'),
+      email: z.string().optional().describe('Guest email'),
+      reservationId: z.number().optional().describe('Reservation id'),
+      uniqueId: z.string().optional().describe('Reservation code given to the guest'),
+      from: z.string().optional().describe(`Earliest reservation date: ${DATE_FORMAT}`),
+      to: z.string().optional().describe(`Latest reservation date: ${DATE_FORMAT}`),
+      status: z
+        .union([z.literal('any'), z.array(z.string()).min(1)])
+        .optional()
+        .describe(
+          'Statuses to include, e.g. ["booked", "seated", "cancelled", "no-show"], or "any". Defaults to ["booked"], or "any" when looking up by reservationId or uniqueId.'
+        ),
+      page: z.number().int().min(1).default(1),
+      pageSize: z.number().int().min(1).max(100).default(20),
     }),
-    execute: async (context: ToolContext, params: { phone: string }) => {
-      const res = await context.api.searchReservations(params.phone);
-
-      return res.data.reservations
-        .filter((r) => r.status === 'booked')
-        .map((r) => ({
-          id: r.id,
-          date: r.resDate.split('T')[0],
-          time: r.resTime.split(' ')[1]?.slice(0, 5) ?? r.resTime,
-          name: r.guestName,
-          phone: r.guestPhone,
-          email: r.guestEmail,
-          partySize: r.partySize,
-          area: { id: r.areaId, name: r.area },
-          menu: { id: r.menuId, name: r.menu },
-        }));
+    execute: async (
+      context: ToolContext,
+      params: {
+        phone?: string;
+        name?: string;
+        email?: string;
+        reservationId?: number;
+        uniqueId?: string;
+        from?: string;
+        to?: string;
+        status?: 'any' | string[];
+        page: number;
+        pageSize: number;
+      }
+    ) => {
+      // The most selective criterion is searched for; the others filter its results
+      const term =
+        params.uniqueId ??
+        (params.reservationId !== undefined ? String(params.reservationId) : undefined) ??
+        params.email ??
+        params.name;
+      if (!params.phone && !term) {
+        throw new ToolError('VALIDATION', 'Pass at least one of phone, name, email, reservationId or uniqueId');
+      }
+
+      // A reservation looked up by id or code is wanted whatever became of it
+      const status =
+        params.status ?? (params.reservationId !== undefined || params.uniqueId ? 'any' : ['booked']);
+
+      const timeZone = await context.api.getTimezone();
+      const today = localDate(timeZone);
+      const filters: ReservationSearchFilters = {
+        from: params.from ? parseDateArg(params.from, today, 'from') : undefined,
+        to: params.to ? parseDateArg(params.to, today, 'to') : undefined,
+        statuses: status === 'any' ? undefined : status,
+      };
+
+      const found = params.phone
+        ? await searchByPhone(context, params.phone, filters)
+        : (await context.api.searchReservations(term!, filters)).data.reservations;
+
+      const matches = found
+        .filter(
+          (r) =>
+            (params.reservationId === undefined || r.id === params.reservationId) &&
+            (!params.uniqueId || r.uniqueId === params.uniqueId) &&
+            (!params.email || r.guestEmail?.toLowerCase() === params.email.toLowerCase()) &&
+            (!params.name || foldText(r.guestName).includes(foldText(params.name)))
+        )
+        .sort((a, b) => a.resDate.localeCompare(b.resDate) || a.resTime.localeCompare(b.resTime));
+
+      const start = (params.page - 1) * params.pageSize;
+      return {
+        total: matches.length,
+        page: params.page,
+        pageSize: params.pageSize,
+        hasMore: start + params.pageSize < matches.length,
+        reservations: matches.slice(start, start + params.pageSize).map((r) => toReservationSummary(r, timeZone)),
+      };
+    },
+  },
+
+  find_guest: {
+    description:
+      "Find the restaurant's guests by name, phone or email. Use it to greet regulars and prefill the name and email when booking.",
+    parameters: z.object({
+      ...restaurantParam,
+      query: z.string().min(2).describe('Guest name, phone (any format) or email'),
+    }),
+    execute: async (context: ToolContext, params: { query: string }) => {
+      const clients = await searchGuests(context, params.query);
+      return clients.map((c) => ({ id: c.id, name: c.fullName, phone: c.phone, email: c.email }));
+    },
+  },
+
+  get_guest_history: {
+    description:
+      "A guest's reservations at the restaurant: upcoming and past, no-shows and cancellations, usual party size and area. Flags frequent no-shows.",
+    parameters: z.object({
+      ...restaurantParam,
+      phone: z.string().optional().describe('Guest phone number, in any format'),
+      email: z.string().optional().describe('Guest email'),
+    }),
+    execute: async (context: ToolContext, params: { phone?: string; email?: string }) => {
+      if (!params.phone && !params.email) {
+        throw new ToolError('VALIDATION', 'Pass the guest phone or email');
+      }
+      const email = params.email?.toLowerCase();
+
+      const [byPhone, byEmail, timeZone] = await Promise.all([
+        params.phone ? searchByPhone(context, params.phone) : [],
+        email
+          ? context.api
+              .searchReservations(email)
+              .then((res) => res.data.reservations.filter((r) => r.guestEmail?.toLowerCase() === email))
+          : [],
+        context.api.getTimezone(),
+      ]);
+
+      const reservations = new Map<number, MeitreReservation>();
+      for (const r of [...byPhone, ...byEmail]) reservations.set(r.id, r);
+      const all = [...reservations.values()].sort(
+        (a, b) => a.resDate.localeCompare(b.resDate) || a.resTime.localeCompare(b.resTime)
+      );
+
+      const today = localDate(timeZone);
+      const upcoming = all.filter((r) => meitreDate(r.resDate) >= today && r.status === 'booked');
+      const past = all.filter((r) => meitreDate(r.resDate) < today);
+      const noShows = past.filter((r) => NO_SHOW_STATUSES.includes(r.status)).length;
+      const cancellations = all.filter((r) => r.status === 'cancelled').length;
+      // Visits the guest actually made, or was expected to make
+      const attended = past.filter((r) => r.status !== 'cancelled' && !NO_SHOW_STATUSES.includes(r.status));
+
+      const byStatus: Record<string, number> = {};
+      for (const r of all) byStatus[r.status] = (byStatus[r.status] ?? 0) + 1;
+
+      const usualAreaId = mostCommon(attended.map((r) => r.areaId));
+      const pastNotCancelled = past.filter((r) => r.status !== 'cancelled').length;
+
+      return {
+        name: all.at(-1)?.guestName ?? null,
+        totalReservations: all.length,
+        visits: attended.length,
+        noShows,
+        cancellations,
+        byStatus,
+        usualPartySize: mostCommon(attended.map((r) => r.partySize)),
+        usualArea:
+          usualAreaId === null
+            ? null
+            : { id: usualAreaId, name: attended.find((r) => r.areaId === usualAreaId)!.area },
+        lastVisit: attended.length ? meitreDate(attended.at(-1)!.resDate) : null,
+        frequentNoShow:
+          noShows >= FREQUENT_NO_SHOWS && noShows / Math.max(pastNotCancelled, 1) >= FREQUENT_NO_SHOW_RATE,
+        upcoming: upcoming.map((r) => toReservationSummary(r, timeZone)),
+        // Most recent first
+        past: past.reverse().map((r) => toReservationSummary(r, timeZone)),
+      };
+    },
+  },
+
+  upsert_guest: {
+    description:
+      "Create a guest in the restaurant's guest list, or update the one with the same phone (or the given clientId).",
+    audit: true,
+    parameters: z.object({
+      ...restaurantParam,
+      clientId: z.number().optional().describe('Guest to update, from find_guest'),
+      name: z.string().min(1).describe('Guest full name'),
+      phone: z.string().describe('Guest phone number. Stored in international format (E.164).'),
+      email: z.string().optional().describe('Guest email'),
+    }),
+    execute: async (
+      context: ToolContext,
+      params: { clientId?: number; name: string; phone: string; email?: string }
+    ) => {
+      const country = countryForTimezone(await context.api.getTimezone());
+      const phone = normalizePhone(params.phone, country);
+      const data = { fullName: params.name, phone, ...(params.email !== undefined && { email: params.email }) };
+
+      let clientId = params.clientId;
+      if (clientId === undefined) {
+        const matches = (await searchGuests(context, phone)).filter((c) => normalizePhone(c.phone, country) === phone);
+        if (matches.length > 1) {
+          // The message ends up in the audit log, so it leaves the phone out
+          throw new ToolError('CONFLICT', 'Several guests have this phone. Pass the clientId of the one to update.', {
+            candidates: matches.map((c) => ({ id: c.id, name: c.fullName, phone: c.phone, email: c.email })),
+          });
+        }
+        clientId = matches[0]?.id;
+      }
+
+      const { client } =
+        clientId === undefined
+          ? await context.api.createClient({ email: '', ...data })
+          : await context.api.updateClient(clientId, data);
+
+      return {
+        action: clientId === undefined ? 'created' : 'updated',
+        id: client.id,
+        name: client.fullName,
+        phone: client.phone,
+        email: client.email,
+      };
+    },
+  },
+
+  list_reservations_for_date: {
+    description:
+      "List every reservation for a date and service, grouped by area, with total covers, counts by status and party sizes. Use it for pre-shift briefings, e.g. \"what does tonight's dinner look like?\".",
+    parameters: z.object({
+      ...restaurantParam,
+      date: z.string().describe(`Date: ${DATE_FORMAT}`),
+      serviceType: z.enum(['lunch', 'dinner']).optional().describe('Only this service. Defaults to the whole day.'),
+    }),
+    execute: async (context: ToolContext, params: { date: string; serviceType?: 'lunch' | 'dinner' }) => {
+      const date = await resolveDateParam(context, params.date);
+      const [res, timeZone] = await Promise.all([
+        context.api.listReservations({ date, serviceType: params.serviceType }),
+        context.api.getTimezone(),
+      ]);
+
+      const all = res.data.reservations.sort((a, b) => a.resTime.localeCompare(b.resTime));
+      // Cancelled reservations only show up in the status counts
+      const active = all.filter((r) => r.status !== 'cancelled');
+
+      const byStatus: Record<string, number> = {};
+      for (const r of all) byStatus[r.status] = (byStatus[r.status] ?? 0) + 1;
+
+      const partySizes: Record<string, number> = {};
+      for (const r of active) partySizes[r.partySize] = (partySizes[r.partySize] ?? 0) + 1;
+
+      const areas = new Map<number, { id: number; name: string; covers: number; reservations: MeitreReservation[] }>();
+      for (const r of active) {
+        const area = areas.get(r.areaId) ?? { id: r.areaId, name: r.area, covers: 0, reservations: [] };
+        area.covers += r.partySize;
+        area.reservations.push(r);
+        areas.set(r.areaId, area);
+      }
+
+      return {
+        date,
+        serviceType: params.serviceType ?? null,
+        reservations: active.length,
+        covers: active.reduce((sum, r) => sum + r.partySize, 0),
+        byStatus,
+        partySizes,
+        areas: [...areas.values()].map((a) => ({
+          ...a,
+          reservations: a.reservations.map((r) => toReservationSummary(r, timeZone)),
+        })),
+      };
     },
   },
 
   book_reservation: {
-    description: 'Book a new reservation',
+    description:
+      'Book a new reservation. The slot is checked against live availability first; if it is not offered, the error lists the nearest available slots.',
+    audit: true,
+    idempotent: true,
     parameters: z.object({
       ...restaurantParam,
+      ...idempotencyParam,
       partySize: z.number(),
-      date: z.string().describe('Date in YYYY-MM-DD format'),
-      time: z.string().describe('Time in HH:MM format'),
+      date: z.string().describe(`Date: ${DATE_FORMAT}`),
+      time: z
+        .string()
+        .regex(/^\d{2}:\d{2}$/)
+        .describe('Time in HH:MM format'),
+      serviceType: z.enum(['lunch', 'dinner']).optional().describe('Service of the slot, if known'),
       areaId: z
         .number()
-        .describe("If the user doesn't specify an area, pick the first one from fetch_options."),
+        .optional()
+        .describe("Only if the user asks for an area. Defaults to the restaurant's default area, or its first one."),
       menuId: z.number().optional().describe('Use only if the user specifies a menu.'),
       name: z.string().describe('Guest name'),
-      phone: z.string().describe('Guest phone number'),
+      phone: z.string().describe('Guest phone number. Stored in international format (E.164).'),
       email: z.string().optional().describe('Guest email'),
+      ...bookingDetailsParams,
+      allowDuplicate: z
+        .boolean()
+        .optional()
+        .describe('Book even though the guest already has a reservation that day. Only after the user confirms.'),
     }),
     execute: async (
       context: ToolContext,
@@ -180,64 +906,128 @@ export const tools = {
         partySize: number;
         date: string;
         time: string;
-        areaId: number;
+        serviceType?: 'lunch' | 'dinner';
+        areaId?: number;
         menuId?: number;
         name: string;
         phone: string;
         email?: string;
-      }
+        allowDuplicate?: boolean;
+      } & BookingDetails
     ) => {
+      const booking = await applyBookingPolicy(context, params);
+
+      // Guests often book twice, by phone and by chat
+      if (!params.allowDuplicate) {
+        const conflicts = await findConflicts(context, booking.date, params.phone, params.email);
+        if (conflicts.length > 0) {
+          const timeZone = await context.api.getTimezone();
+          const existing = conflicts[0];
+          const isChange =
+            conflicts.length === 1 &&
+            (meitreTime(existing.resTime) !== params.time || existing.partySize !== params.partySize);
+
+          throw new ToolError(
+            'CONFLICT',
+            isChange
+              ? `The guest already has reservation ${existing.id} on ${booking.date}. If this is a change to it, use reschedule_reservation instead; to book another table anyway, retry with allowDuplicate: true.`
+              : `The guest already has ${conflicts.length === 1 ? 'a reservation' : `${conflicts.length} reservations`} on ${booking.date}. To book another one anyway, retry with allowDuplicate: true.`,
+            {
+              conflicts: conflicts.map((r) => toReservationSummary(r, timeZone)),
+              ...(isChange && {
+                suggestion: {
+                  tool: 'reschedule_reservation',
+                  reservationId: existing.id,
+                  time: params.time,
+                  partySize: params.partySize,
+                },
+              }),
+            }
+          );
+        }
+      }
+      const { areaId } = await verifySlot(context, {
+        partySize: params.partySize,
+        date: booking.date,
+        time: params.time,
+        serviceType: params.serviceType,
+        areaId: booking.areaId,
+        areaRequested: params.areaId !== undefined,
+        menuId: params.menuId,
+      });
+
       const { reservation } = await context.api.createReservation({
         partySize: params.partySize,
-        date: params.date,
+        date: booking.date,
         time: params.time,
-        area: params.areaId,
+        area: areaId,
         name: params.name,
-        phone: params.phone,
+        phone: await normalizePhoneParam(context, params.phone),
         email: params.email ?? '',
         mode: 'new',
         allergies: '',
-        defaultLang: 'es',
+        defaultLang: booking.language,
         howManyKids: 0,
         howManyVeggie: 0,
         kids: false,
         partySizeType: 'normal',
         paymentProcessor: 'stripe',
         pets: false,
-        publicOrHold: 'public',
+        publicOrHold: booking.publicOrHold,
         reservationMode: 'main',
         restrictions: false,
         type: 'traditional',
         veggie: false,
+        ...toDetailsPayload(params),
       });
 
-      return {
-        id: reservation.id,
-        status: reservation.status,
-        date: reservation.resDate,
-        time: reservation.resTime,
-        name: reservation.guestName,
-        partySize: reservation.partySize,
-      };
+      return toBookingResult(reservation, await context.api.getTimezone());
     },
   },
 
   reschedule_reservation: {
-    description: 'Reschedule an existing reservation to a new date and time',
+    description:
+      'Reschedule an existing reservation to a new date and time. Call with preview: true first to show the user the change.',
+    audit: true,
+    idempotent: true,
+    confirm: true,
     parameters: z.object({
       ...restaurantParam,
+      ...idempotencyParam,
+      ...confirmationParams,
       reservationId: z.number().describe('ID of the reservation to reschedule'),
       partySize: z.number(),
-      date: z.string().describe('New date in YYYY-MM-DD format'),
-      time: z.string().describe('New time in HH:MM format'),
+      date: z.string().describe(`New date: ${DATE_FORMAT}`),
+      time: z
+        .string()
+        .regex(/^\d{2}:\d{2}$/)
+        .describe('New time in HH:MM format'),
       areaId: z
         .number()
-        .describe("If the user doesn't specify an area, pick the first one from fetch_options."),
+        .optional()
+        .describe("Only if the user asks for an area. Defaults to the restaurant's default area, or its first one."),
       menuId: z.number().optional().describe('Use only if the user specifies a menu.'),
       name: z.string().describe('Guest name'),
-      phone: z.string().describe('Guest phone number'),
+      phone: z.string().describe('Guest phone number. Stored in international format (E.164).'),
       email: z.string().optional().describe('Guest email'),
+      ...bookingDetailsParams,
     }),
+    preview: async (
+      context: ToolContext,
+      params: { reservationId: number; partySize: number; date: string; time: string; areaId?: number; phone: string }
+    ) => {
+      const reservation = await findReservation(context, params.reservationId, params.phone);
+      return {
+        action: 'reschedule',
+        reservation,
+        changes: {
+          date: await resolveDateParam(context, params.date),
+          time: params.time,
+          partySize: params.partySize,
+          areaId: params.areaId,
+        },
+      };
+    },
     execute: async (
       context: ToolContext,
       params: {
@@ -245,67 +1035,209 @@ export const tools = {
         partySize: number;
         date: string;
         time: string;
-        areaId: number;
+        areaId?: number;
         menuId?: number;
         name: string;
         phone: string;
         email?: string;
-      }
+      } & BookingDetails
     ) => {
+      const booking = await applyBookingPolicy(context, params);
       const { reservation } = await context.api.createReservation({
         partySize: params.partySize,
-        date: params.date,
+        date: booking.date,
         time: params.time,
-        area: params.areaId,
+        area: booking.areaId,
         name: params.name,
-        phone: params.phone,
+        phone: await normalizePhoneParam(context, params.phone),
         email: params.email ?? '',
         mode: 'reschedule',
         rescheduleOption: 1,
         reservationToRescheduleId: params.reservationId,
         allergies: '',
-        defaultLang: 'es',
+        defaultLang: booking.language,
         howManyKids: 0,
         howManyVeggie: 0,
         kids: false,
         partySizeType: 'normal',
         paymentProcessor: 'stripe',
         pets: false,
-        publicOrHold: 'public',
+        publicOrHold: booking.publicOrHold,
         reservationMode: 'main',
         restrictions: false,
         type: 'traditional',
         veggie: false,
+        ...toDetailsPayload(params),
       });
 
+      return toBookingResult(reservation, await context.api.getTimezone());
+    },
+  },
+
+  update_reservation_details: {
+    description:
+      'Change the notes, allergies, kids, vegetarians, pets or language of an existing reservation without rescheduling it. Only the details given are changed.',
+    audit: true,
+    parameters: z.object({
+      ...restaurantParam,
+      reservationId: z.number().describe('ID of the reservation to update'),
+      ...bookingDetailsParams,
+    }),
+    execute: async (context: ToolContext, params: { reservationId: number } & BookingDetails) => {
+      const details = toDetailsPayload(params);
+      if (Object.keys(details).length === 0) {
+        throw new ToolError('VALIDATION', 'Pass at least one detail to change');
+      }
+
+      const res = await context.api.updateReservation(params.reservationId, details);
+
       return {
-        id: reservation.id,
-        status: reservation.status,
-        date: reservation.resDate,
-        time: reservation.resTime,
-        name: reservation.guestName,
-        partySize: reservation.partySize,
+        ...toBookingResult(res.data.reservation, await context.api.getTimezone()),
+        updated: Object.keys(bookingDetailsParams).filter((key) => params[key as keyof BookingDetails] !== undefined),
       };
     },
   },
 
   cancel_reservation: {
-    description: 'Cancel an existing reservation',
+    description: 'Cancel an existing reservation. Call with preview: true first to show the user what will be cancelled.',
+    audit: true,
+    confirm: true,
     parameters: z.object({
       ...restaurantParam,
+      ...confirmationParams,
       reservationId: z.number().describe('ID of the reservation to cancel'),
+      phone: z.string().optional().describe('Guest phone number, if known. Helps find the reservation for a preview.'),
     }),
+    preview: async (context: ToolContext, params: { reservationId: number; phone?: string }) => {
+      const reservation = await findReservation(context, params.reservationId, params.phone);
+      return { action: 'cancel', reservation };
+    },
     execute: async (context: ToolContext, params: { reservationId: number }) => {
       const res = await context.api.cancelReservation(params.reservationId);
 
-      return {
-        id: res.data.reservation.id,
-        status: res.data.reservation.status,
-        date: res.data.reservation.resDate,
-        time: res.data.reservation.resTime,
-        name: res.data.reservation.guestName,
-        partySize: res.data.reservation.partySize,
+      return toBookingResult(res.data.reservation, await context.api.getTimezone());
+    },
+  },
+
+  get_settings: {
+    description:
+      "Get the restaurant's booking settings for this account: default area and language, public or hold bookings, maximum party size and booking horizon.",
+    parameters: z.object({
+      ...restaurantParam,
+    }),
+    execute: async (context: ToolContext) => {
+      const account = context.api.getAccount();
+      const restaurant = await context.api.getRestaurant();
+      const [settings, { requireConfirmation }] = await Promise.all([
+        context.settingsStore.getRestaurantSettings(account, restaurant),
+        context.settingsStore.getAccountSettings(account),
+      ]);
+
+      return { restaurant, ...settings, requireConfirmation };
+    },
+  },
+
+  update_settings: {
+    description:
+      "Change the restaurant's booking settings for this account. Only the settings given are changed; pass null to clear one. book_reservation and reschedule_reservation apply them.",
+    audit: true,
+    parameters: z.object({
+      ...restaurantParam,
+      defaultAreaId: z.number().nullable().optional().describe("Area booked when the guest doesn't ask for one"),
+      defaultLanguage: z.enum(['es', 'en', 'pt']).nullable().optional().describe('Language of confirmations'),
+      publicOrHold: z
+        .enum(['public', 'hold'])
+        .optional()
+        .describe('Whether new bookings are confirmed (public) or held for the restaurant to confirm (hold)'),
+      maxPartySize: z.number().int().min(1).nullable().optional().describe('Largest party that can be booked'),
+      bookingHorizonDays: z
+        .number()
+        .int()
+        .min(0)
+        .nullable()
+        .optional()
+        .describe('How many days ahead bookings are accepted'),
+    }),
+    execute: async (context: ToolContext, params: Partial<RestaurantSettings>) => {
+      const account = context.api.getAccount();
+      const restaurant = await assertRestaurantAccess(context);
+
+      if (params.defaultAreaId != null) {
+        const { areas } = await context.api.getAreas();
+        if (!areas.some((a) => a.id === params.defaultAreaId)) {
+          throw new ToolError('VALIDATION', `Unknown area: ${params.defaultAreaId}. Use fetch_options to list the areas.`, {
+            fields: { defaultAreaId: 'Not one of the restaurant areas' },
+          });
+        }
+      }
+
+      const current = await context.settingsStore.getRestaurantSettings(account, restaurant);
+      const settings: RestaurantSettings = {
+        defaultAreaId: params.defaultAreaId !== undefined ? params.defaultAreaId : current.defaultAreaId,
+        defaultLanguage: params.defaultLanguage !== undefined ? params.defaultLanguage : current.defaultLanguage,
+        publicOrHold: params.publicOrHold ?? current.publicOrHold,
+        maxPartySize: params.maxPartySize !== undefined ? params.maxPartySize : current.maxPartySize,
+        bookingHorizonDays:
+          params.bookingHorizonDays !== undefined ? params.bookingHorizonDays : current.bookingHorizonDays,
       };
+      await context.settingsStore.setRestaurantSettings(account, restaurant, settings);
+
+      return { restaurant, ...settings };
+    },
+  },
+
+  list_audit_log: {
+    description:
+      'List recorded bookings, reschedules, detail changes, cancellations, settings changes and guest updates for the restaurant, newest first: who did it, when, and the outcome. Use it to answer questions like "who cancelled this reservation?".',
+    parameters: z.object({
+      ...restaurantParam,
+      reservationId: z.number().optional().describe('Only entries for this reservation'),
+      tool: z
+        .enum([
+          'book_reservation',
+          'reschedule_reservation',
+          'update_reservation_details',
+          'cancel_reservation',
+          'update_settings',
+          'upsert_guest',
+        ])
+        .optional(),
+      limit: z.number().int().min(1).max(100).default(20),
+    }),
+    execute: async (
+      context: ToolContext,
+      params: {
+        reservationId?: number;
+        tool?:
+          | 'book_reservation'
+          | 'reschedule_reservation'
+          | 'update_reservation_details'
+          | 'cancel_reservation'
+          | 'update_settings'
+          | 'upsert_guest';
+        limit: number;
+      }
+    ) => {
+      // The log spans accounts, so make sure this one actually has access to the restaurant
+      const restaurant = await assertRestaurantAccess(context);
+
+      const records = await context.auditLog.query({
+        restaurant,
+        reservationId: params.reservationId,
+        tool: params.tool,
+        limit: params.limit,
+      });
+
+      return records.map((r) => ({
+        id: r.id,
+        at: new Date(r.createdAt * 1000).toISOString(),
+        account: r.account,
+        tool: r.tool,
+        reservationId: r.reservationId,
+        arguments: r.arguments,
+        result: r.result,
+        error: r.error,
+      }));
     },
   },
 };
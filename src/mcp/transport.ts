@@ -0,0 +1,206 @@
+// Streamable HTTP transport: batching, notifications, sessions and SSE
+// https://modelcontextprotocol.io/specification/2025-06-18/basic/transports#streamable-http
+
+import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import type { AppEnv } from '../index.ts';
+import { MeitreAPI } from '../lib/meitre.ts';
+import {
+  D1TokenStore,
+  D1ResponseCache,
+  D1AuditLog,
+  D1IdempotencyStore,
+  D1ConfirmationStore,
+  D1SettingsStore,
+} from '../store/index.ts';
+import { createKeyring } from '../lib/crypto.ts';
+import { createSession, getSession, deleteSession, type McpSession } from '../db/index.ts';
+import {
+  handleMcpRequest,
+  negotiateProtocolVersion,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  type McpHttpResponse,
+} from './server.ts';
+import type { ToolContext } from './tools.ts';
+
+export const SESSION_TTL = 7 * 24 * 60 * 60; // 7 days
+const SSE_KEEPALIVE_INTERVAL = 25_000;
+const SSE_MAX_DURATION = 10 * 60_000; // clients reconnect with GET when the stream ends
+
+export async function handleMcpPost(c: Context<AppEnv>): Promise<Response> {
+  const accept = c.req.header('accept');
+  if (accept && !acceptsAny(accept, ['application/json', 'text/event-stream'])) {
+    return jsonRpcError(c, -32000, 'Not Acceptable: client must accept application/json or text/event-stream', 406);
+  }
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return jsonRpcError(c, -32700, 'Parse error', 400);
+  }
+
+  const isBatch = Array.isArray(body);
+  const messages: unknown[] = isBatch ? (body as unknown[]) : [body];
+
+  if (messages.length === 0) {
+    return jsonRpcError(c, -32600, 'Invalid Request: empty batch', 400);
+  }
+
+  const initialize = messages.find(isInitializeRequest);
+
+  if (initialize && messages.length > 1) {
+    return jsonRpcError(c, -32600, 'Invalid Request: initialize must not be part of a batch', 400);
+  }
+
+  if (!initialize) {
+    const invalid = await validateSession(c);
+    if (invalid) return invalid;
+  }
+
+  const credentials = c.get('credentials');
+  const keyring = createKeyring(c.env.ENCRYPTION_KEY, c.env.PREVIOUS_ENCRYPTION_KEYS);
+  const api = new MeitreAPI(
+    credentials,
+    new D1TokenStore(c.env.DB, keyring),
+    c.env.ENCRYPTION_KEY,
+    new D1ResponseCache(c.env.DB)
+  );
+  const context: ToolContext = {
+    api,
+    hasHeaderRestaurant: c.get('headerRestaurant'),
+    auditLog: new D1AuditLog(c.env.DB),
+    idempotencyStore: new D1IdempotencyStore(c.env.DB),
+    confirmationStore: new D1ConfirmationStore(c.env.DB),
+    settingsStore: new D1SettingsStore(c.env.DB),
+  };
+
+  if (initialize) {
+    const response = await handleMcpRequest(initialize, context);
+    if (!response) return c.body(null, 202);
+
+    if (response.result) {
+      const sessionId = crypto.randomUUID();
+      await createSession(c.env.DB, {
+        id: sessionId,
+        username: credentials.username,
+        protocolVersion: negotiateProtocolVersion(initialize.params?.protocolVersion),
+      });
+      c.header('Mcp-Session-Id', sessionId);
+    }
+    return c.json(response);
+  }
+
+  // Tool calls can be slow; stream them when the client allows it
+  const wantsStream =
+    !!accept &&
+    acceptsAny(accept, ['text/event-stream']) &&
+    messages.some((m) => isObjectWithMethod(m) && m.method === 'tools/call' && 'id' in m);
+
+  if (wantsStream) {
+    return streamSSE(c, async (stream) => {
+      // Concurrently, each response sent as soon as it's ready; a tool's `restaurant` argument gets
+      // its own API client, so calls don't interfere
+      await Promise.all(
+        messages.map(async (message) => {
+          const response = await handleMcpRequest(message, context);
+          if (response) {
+            await stream.writeSSE({ event: 'message', data: JSON.stringify(response) });
+          }
+        })
+      );
+    });
+  }
+
+  // Concurrently too, answered in request order
+  const responses = (await Promise.all(messages.map((message) => handleMcpRequest(message, context)))).filter(
+    (response): response is McpHttpResponse => response !== null
+  );
+
+  // Notifications and client responses only get an acknowledgement
+  if (responses.length === 0) {
+    return c.body(null, 202);
+  }
+
+  return c.json(isBatch ? responses : responses[0]);
+}
+
+// Stream for server-initiated messages. We have none yet, so it only carries keepalives.
+export async function handleMcpGet(c: Context<AppEnv>): Promise<Response> {
+  const accept = c.req.header('accept');
+  if (!accept || !acceptsAny(accept, ['text/event-stream'])) {
+    return jsonRpcError(c, -32000, 'Method not allowed. GET requires Accept: text/event-stream.', 405);
+  }
+
+  const invalid = await validateSession(c);
+  if (invalid) return invalid;
+
+  return streamSSE(c, async (stream) => {
+    let open = true;
+    stream.onAbort(() => {
+      open = false;
+    });
+
+    const deadline = Date.now() + SSE_MAX_DURATION;
+    while (open && Date.now() < deadline) {
+      await stream.write(': keepalive\n\n');
+      await stream.sleep(SSE_KEEPALIVE_INTERVAL);
+    }
+  });
+}
+
+export async function handleMcpDelete(c: Context<AppEnv>): Promise<Response> {
+  const invalid = await validateSession(c);
+  if (invalid) return invalid;
+
+  await deleteSession(c.env.DB, c.req.header('mcp-session-id')!);
+  return c.body(null, 204);
+}
+
+// --- helpers ---
+
+// Returns an error response when the request's session or protocol version is unacceptable
+async function validateSession(c: Context<AppEnv>): Promise<Response | null> {
+  const sessionId = c.req.header('mcp-session-id');
+  if (!sessionId) {
+    return jsonRpcError(c, -32000, 'Bad Request: missing Mcp-Session-Id header', 400);
+  }
+
+  const session = await getSession(c.env.DB, sessionId);
+  if (!session || isExpired(session) || session.username !== c.get('credentials').username) {
+    // 404 tells the client to start a new session with initialize
+    return jsonRpcError(c, -32001, 'Session not found', 404);
+  }
+
+  const protocolVersion = c.req.header('mcp-protocol-version');
+  if (protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+    return jsonRpcError(c, -32000, `Bad Request: unsupported protocol version ${protocolVersion}`, 400);
+  }
+
+  return null;
+}
+
+function isExpired(session: McpSession): boolean {
+  return session.createdAt + SESSION_TTL < Math.floor(Date.now() / 1000);
+}
+
+function isInitializeRequest(
+  message: unknown
+): message is { method: 'initialize'; params?: { protocolVersion?: unknown } } {
+  return isObjectWithMethod(message) && message.method === 'initialize';
+}
+
+function isObjectWithMethod(message: unknown): message is { method: unknown } & Record<string, unknown> {
+  return typeof message === 'object' && message !== null && 'method' in message;
+}
+
+function acceptsAny(accept: string, types: string[]): boolean {
+  return accept
+    .split(',')
+    .map((part) => part.split(';')[0].trim())
+    .some((type) => type === '*/*' || types.includes(type));
+}
+
+function jsonRpcError(c: Context<AppEnv>, code: number, message: string, status: 400 | 404 | 405 | 406) {
+  return c.json({ jsonrpc: '2.0', id: null, error: { code, message } }, status);
+}
@@ -0,0 +1,315 @@
+import { Hono, type Context } from 'hono';
+import { cors } from 'hono/cors';
+import type { Bindings } from '../index.ts';
+import { MeitreAPI } from '../lib/meitre.ts';
+import { D1TokenStore } from '../store/index.ts';
+import { generateToken, hashToken, verifyPkce, createKeyring, type Keyring } from '../lib/crypto.ts';
+import {
+  createClient,
+  getClient,
+  createGrant,
+  getGrant,
+  deleteGrant,
+  createCode,
+  consumeCode,
+  createOAuthToken,
+  getOAuthToken,
+  deleteOAuthToken,
+  type OAuthGrant,
+} from '../db/index.ts';
+import { loginPage, type AuthorizeParams } from './login.ts';
+
+const ACCESS_TOKEN_TTL = 60 * 60; // 1 hour
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60; // 30 days
+export const CODE_TTL = 10 * 60; // 10 minutes
+
+export const oauth = new Hono<{ Bindings: Bindings }>();
+
+// Metadata and token endpoints are called from browser-based clients too
+oauth.use('/.well-known/*', cors());
+oauth.use('/register', cors());
+oauth.use('/token', cors());
+oauth.use('/revoke', cors());
+
+// RFC 9728: protected resource metadata
+oauth.get('/.well-known/oauth-protected-resource/*', (c) => c.json(protectedResourceMetadata(c)));
+oauth.get('/.well-known/oauth-protected-resource', (c) => c.json(protectedResourceMetadata(c)));
+
+// RFC 8414: authorization server metadata
+oauth.get('/.well-known/oauth-authorization-server', (c) => {
+  const issuer = new URL(c.req.url).origin;
+  return c.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    registration_endpoint: `${issuer}/register`,
+    revocation_endpoint: `${issuer}/revoke`,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['none'],
+    revocation_endpoint_auth_methods_supported: ['none'],
+  });
+});
+
+// RFC 7591: dynamic client registration (public clients only)
+oauth.post('/register', async (c) => {
+  let body: { redirect_uris?: unknown; client_name?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return oauthError(c, 'invalid_client_metadata', 'Body must be JSON');
+  }
+
+  const redirectUris = body.redirect_uris;
+  if (
+    !Array.isArray(redirectUris) ||
+    redirectUris.length === 0 ||
+    !redirectUris.every((uri) => typeof uri === 'string' && isValidRedirectUri(uri))
+  ) {
+    return oauthError(c, 'invalid_redirect_uri', 'redirect_uris must be absolute https or loopback URLs');
+  }
+
+  const clientName = typeof body.client_name === 'string' ? body.client_name : null;
+  const clientId = crypto.randomUUID();
+
+  await createClient(c.env.DB, { clientId, clientName, redirectUris });
+
+  return c.json(
+    {
+      client_id: clientId,
+      client_id_issued_at: Math.floor(Date.now() / 1000),
+      client_name: clientName ?? undefined,
+      redirect_uris: redirectUris,
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    },
+    201
+  );
+});
+
+oauth.get('/authorize', async (c) => {
+  const query = c.req.query();
+
+  const client = query.client_id ? await getClient(c.env.DB, query.client_id) : null;
+  if (!client || !query.redirect_uri || !client.redirectUris.includes(query.redirect_uri)) {
+    // Never redirect to an unverified URI
+    return c.text('Invalid client_id or redirect_uri', 400);
+  }
+
+  if (query.response_type !== 'code') {
+    return redirectWithError(c, query.redirect_uri, 'unsupported_response_type', query.state);
+  }
+
+  if (!query.code_challenge || query.code_challenge_method !== 'S256') {
+    return redirectWithError(c, query.redirect_uri, 'invalid_request', query.state, 'PKCE with S256 is required');
+  }
+
+  const params: AuthorizeParams = {
+    client_id: query.client_id,
+    redirect_uri: query.redirect_uri,
+    state: query.state,
+    code_challenge: query.code_challenge,
+    code_challenge_method: query.code_challenge_method,
+  };
+
+  return c.html(loginPage(params, client.clientName));
+});
+
+oauth.post('/authorize', async (c) => {
+  const form = await c.req.parseBody();
+  const field = (name: string) => (typeof form[name] === 'string' ? (form[name] as string) : '');
+
+  const params: AuthorizeParams = {
+    client_id: field('client_id'),
+    redirect_uri: field('redirect_uri'),
+    state: field('state') || undefined,
+    code_challenge: field('code_challenge'),
+    code_challenge_method: field('code_challenge_method'),
+  };
+
+  const client = params.client_id ? await getClient(c.env.DB, params.client_id) : null;
+  if (!client || !client.redirectUris.includes(params.redirect_uri)) {
+    return c.text('Invalid client_id or redirect_uri', 400);
+  }
+
+  if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+    return redirectWithError(c, params.redirect_uri, 'invalid_request', params.state, 'PKCE with S256 is required');
+  }
+
+  const username = field('username').trim();
+  const password = field('password');
+  const restaurant = field('restaurant').trim() || null;
+
+  const keyring = createKeyring(c.env.ENCRYPTION_KEY, c.env.PREVIOUS_ENCRYPTION_KEYS);
+
+  // Credentials are checked against Meitre once, here, and never leave the server again
+  try {
+    const api = new MeitreAPI({ username, password }, new D1TokenStore(c.env.DB, keyring), c.env.ENCRYPTION_KEY);
+    await api.authenticate();
+  } catch {
+    return c.html(loginPage(params, client.clientName, 'Invalid Meitre username or password.'), 401);
+  }
+
+  const grantId = crypto.randomUUID();
+  await createGrant(
+    c.env.DB,
+    { id: grantId, clientId: client.clientId, username, password, restaurant },
+    keyring
+  );
+
+  const code = generateToken();
+  await createCode(c.env.DB, await hashToken(code), {
+    grantId,
+    clientId: client.clientId,
+    redirectUri: params.redirect_uri,
+    codeChallenge: params.code_challenge,
+    expiresAt: now() + CODE_TTL,
+  });
+
+  const redirect = new URL(params.redirect_uri);
+  redirect.searchParams.set('code', code);
+  if (params.state) redirect.searchParams.set('state', params.state);
+
+  return c.redirect(redirect.toString());
+});
+
+oauth.post('/token', async (c) => {
+  const form = await c.req.parseBody();
+  const field = (name: string) => (typeof form[name] === 'string' ? (form[name] as string) : '');
+
+  const grantType = field('grant_type');
+  const clientId = field('client_id');
+
+  if (grantType === 'authorization_code') {
+    const code = await consumeCode(c.env.DB, await hashToken(field('code')));
+
+    if (!code || code.expiresAt < now()) {
+      return oauthError(c, 'invalid_grant', 'Authorization code is invalid or expired');
+    }
+    if (code.clientId !== clientId || code.redirectUri !== field('redirect_uri')) {
+      return oauthError(c, 'invalid_grant', 'client_id or redirect_uri mismatch');
+    }
+    if (!(await verifyPkce(field('code_verifier'), code.codeChallenge))) {
+      return oauthError(c, 'invalid_grant', 'PKCE verification failed');
+    }
+
+    return c.json(await issueTokens(c.env.DB, code.grantId, clientId));
+  }
+
+  if (grantType === 'refresh_token') {
+    const refreshHash = await hashToken(field('refresh_token'));
+    const token = await getOAuthToken(c.env.DB, refreshHash);
+
+    if (!token || token.type !== 'refresh' || token.expiresAt < now()) {
+      return oauthError(c, 'invalid_grant', 'Refresh token is invalid or expired');
+    }
+    if (token.clientId !== clientId) {
+      return oauthError(c, 'invalid_grant', 'client_id mismatch');
+    }
+
+    // Refresh tokens are rotated on every use
+    await deleteOAuthToken(c.env.DB, refreshHash);
+    return c.json(await issueTokens(c.env.DB, token.grantId, clientId));
+  }
+
+  return oauthError(c, 'unsupported_grant_type', `Unsupported grant_type: ${grantType}`);
+});
+
+// RFC 7009: token revocation. Revoking either token ends the whole grant, so the client's other
+// tokens and the stored Meitre password go with it.
+oauth.post('/revoke', async (c) => {
+  const form = await c.req.parseBody();
+  const field = (name: string) => (typeof form[name] === 'string' ? (form[name] as string) : '');
+
+  const token = await getOAuthToken(c.env.DB, await hashToken(field('token')));
+
+  // Unknown tokens get the same answer, so nothing is learned by probing
+  if (token && token.clientId === field('client_id')) {
+    await deleteGrant(c.env.DB, token.grantId);
+  }
+
+  return c.body(null, 200);
+});
+
+// Resolves a bearer access token to the grant it was issued for
+export async function resolveAccessToken(
+  db: D1Database,
+  accessToken: string,
+  keyring: Keyring
+): Promise<OAuthGrant | null> {
+  const token = await getOAuthToken(db, await hashToken(accessToken));
+  if (!token || token.type !== 'access' || token.expiresAt < now()) return null;
+  return getGrant(db, token.grantId, keyring);
+}
+
+export function resourceMetadataUrl(requestUrl: string): string {
+  return `${new URL(requestUrl).origin}/.well-known/oauth-protected-resource`;
+}
+
+// --- helpers ---
+
+function protectedResourceMetadata(c: Context) {
+  const origin = new URL(c.req.url).origin;
+  return {
+    resource: `${origin}/mcp`,
+    authorization_servers: [origin],
+    bearer_methods_supported: ['header'],
+  };
+}
+
+async function issueTokens(db: D1Database, grantId: string, clientId: string) {
+  const accessToken = generateToken();
+  const refreshToken = generateToken();
+
+  await createOAuthToken(db, await hashToken(accessToken), {
+    grantId,
+    clientId,
+    type: 'access',
+    expiresAt: now() + ACCESS_TOKEN_TTL,
+  });
+  await createOAuthToken(db, await hashToken(refreshToken), {
+    grantId,
+    clientId,
+    type: 'refresh',
+    expiresAt: now() + REFRESH_TOKEN_TTL,
+  });
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL,
+    refresh_token: refreshToken,
+  };
+}
+
+function isValidRedirectUri(uri: string): boolean {
+  try {
+    const url = new URL(uri);
+    if (url.hash) return false;
+    if (url.protocol === 'http:') {
+      return url.hostname === 'localhost' || url.hostname === '127.0.0.1' || url.hostname === '[::1]';
+    }
+    // https and private-use schemes (e.g. cursor://) for native clients
+    return url.protocol !== 'javascript:' && url.protocol !== 'data:';
+  } catch {
+    return false;
+  }
+}
+
+function redirectWithError(c: Context, redirectUri: string, error: string, state?: string, description?: string) {
+  const redirect = new URL(redirectUri);
+  redirect.searchParams.set('error', error);
+  if (description) redirect.searchParams.set('error_description', description);
+  if (state) redirect.searchParams.set('state', state);
+  return c.redirect(redirect.toString());
+}
+
+function oauthError(c: Context, error: string, description: string) {
+  return c.json({ error, error_description: description }, 400);
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
@@ -0,0 +1,47 @@
+import { html } from 'hono/html';
+
+// Parameters of the authorization request, carried through the login form as hidden fields
+export interface AuthorizeParams {
+  client_id: string;
+  redirect_uri: string;
+  state?: string;
+  code_challenge: string;
+  code_challenge_method: string;
+}
+
+export function loginPage(params: AuthorizeParams, clientName: string | null, error?: string) {
+  return html`<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Sign in with Meitre</title>
+    <style>
+      body { font-family: system-ui, sans-serif; background: #f5f5f5; display: flex; justify-content: center; padding-top: 10vh; }
+      form { background: #fff; padding: 2rem; border-radius: 8px; width: 320px; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.1); }
+      h1 { font-size: 1.25rem; margin: 0 0 0.5rem; }
+      p { color: #555; font-size: 0.9rem; }
+      label { display: block; font-size: 0.85rem; margin-top: 1rem; }
+      input { width: 100%; box-sizing: border-box; padding: 0.5rem; margin-top: 0.25rem; }
+      button { width: 100%; margin-top: 1.5rem; padding: 0.6rem; background: #111; color: #fff; border: 0; border-radius: 4px; cursor: pointer; }
+      .error { color: #b00020; }
+    </style>
+  </head>
+  <body>
+    <form method="post" action="/authorize">
+      <h1>Sign in with Meitre</h1>
+      <p>${clientName ?? 'An MCP client'} is requesting access to your Meitre account.</p>
+      ${error ? html`<p class="error">${error}</p>` : ''}
+      <input type="hidden" name="client_id" value="${params.client_id}" />
+      <input type="hidden" name="redirect_uri" value="${params.redirect_uri}" />
+      <input type="hidden" name="state" value="${params.state ?? ''}" />
+      <input type="hidden" name="code_challenge" value="${params.code_challenge}" />
+      <input type="hidden" name="code_challenge_method" value="${params.code_challenge_method}" />
+      <label>Username <input type="email" name="username" required autocomplete="username" /></label>
+      <label>Password <input type="password" name="password" required autocomplete="current-password" /></label>
+      <label>Default restaurant (optional) <input type="text" name="restaurant" /></label>
+      <button type="submit">Authorize</button>
+    </form>
+  </body>
+</html>`;
+}
@@ -0,0 +1,14 @@
+import type { Bindings } from './index.ts';
+import { purgeExpired, reencryptAll } from './db/index.ts';
+import { createKeyring } from './lib/crypto.ts';
+import { SESSION_TTL } from './mcp/transport.ts';
+import { IDEMPOTENCY_TTL } from './mcp/idempotency.ts';
+import { CODE_TTL } from './oauth/index.ts';
+
+// Cron maintenance, see [triggers] in wrangler.toml
+export async function handleScheduled(_controller: ScheduledController, env: Bindings): Promise<void> {
+  await purgeExpired(env.DB, SESSION_TTL, IDEMPOTENCY_TTL, CODE_TTL);
+
+  // Moves rows off retired (and unversioned) ciphertexts so PREVIOUS_ENCRYPTION_KEYS can eventually be emptied
+  await reencryptAll(env.DB, createKeyring(env.ENCRYPTION_KEY, env.PREVIOUS_ENCRYPTION_KEYS));
+}
@@ -0,0 +1,77 @@
+#!/usr/bin/env -S node --experimental-strip-types --no-warnings
+// Standalone MCP server over stdio, for running locally (e.g. from Claude Desktop) without a Worker
+
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { MeitreAPI } from './lib/meitre.ts';
+import { generateEncryptionKey, createKeyring } from './lib/crypto.ts';
+import { handleMcpRequest } from './mcp/server.ts';
+import {
+  MemoryTokenStore,
+  MemoryResponseCache,
+  MemoryAuditLog,
+  MemoryIdempotencyStore,
+  MemoryConfirmationStore,
+  MemorySettingsStore,
+  type TokenStore,
+} from './store/index.ts';
+import { FileTokenStore } from './store/file.ts';
+
+const username = process.env.MEITRE_USERNAME;
+const password = process.env.MEITRE_PASSWORD;
+const restaurant = process.env.MEITRE_RESTAURANT;
+const encryptionKey = process.env.MEITRE_ENCRYPTION_KEY;
+const requireConfirmation = process.env.MEITRE_REQUIRE_CONFIRMATION === 'true';
+const tokenFile = process.env.MEITRE_TOKEN_FILE ?? join(homedir(), '.meitre-mcp', 'tokens.json');
+
+if (!username || !password) {
+  console.error('Missing required environment variables: MEITRE_USERNAME, MEITRE_PASSWORD');
+  process.exit(1);
+}
+
+// Without a key, tokens only live as long as the process
+const tokenStore: TokenStore = encryptionKey
+  ? new FileTokenStore(tokenFile, createKeyring(encryptionKey, process.env.MEITRE_PREVIOUS_ENCRYPTION_KEYS))
+  : new MemoryTokenStore();
+
+// The key also binds cached tokens to the password; a throwaway one will do for an in-memory store
+const api = new MeitreAPI(
+  { username, password, restaurant },
+  tokenStore,
+  encryptionKey ?? generateEncryptionKey(),
+  new MemoryResponseCache()
+);
+const auditLog = new MemoryAuditLog();
+const idempotencyStore = new MemoryIdempotencyStore();
+const confirmationStore = new MemoryConfirmationStore();
+const settingsStore = new MemorySettingsStore({ requireConfirmation });
+const transport = new StdioServerTransport();
+
+const context = {
+  api,
+  hasHeaderRestaurant: !!restaurant,
+  auditLog,
+  idempotencyStore,
+  confirmationStore,
+  settingsStore,
+};
+
+// Messages are handled concurrently; a tool's `restaurant` argument gets its own API client
+transport.onmessage = async (message) => {
+  try {
+    const response = await handleMcpRequest(message, context);
+    if (response) {
+      await transport.send(response as JSONRPCMessage);
+    }
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+transport.onerror = (error) => {
+  console.error(error);
+};
+
+await transport.start();
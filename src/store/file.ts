@@ -0,0 +1,63 @@
+// Encrypted JSON file store for the stdio server. Node only: not imported by the Worker.
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { encrypt, decrypt, type Keyring } from '../lib/crypto.ts';
+import type { TokenStore, CachedToken } from './index.ts';
+
+export class FileTokenStore implements TokenStore {
+  private path: string;
+  private keyring: Keyring;
+
+  constructor(path: string, keyring: Keyring) {
+    this.path = path;
+    this.keyring = keyring;
+  }
+
+  async get(cacheKey: string) {
+    const tokens = await this.read();
+    const entry = tokens[cacheKey];
+    // Entries written before tokens were bound to a fingerprint are plain strings
+    if (!entry || typeof entry !== 'object') return null;
+
+    // An entry under a retired key is just a cache miss
+    const token = await decrypt(entry.token, this.keyring).catch(() => null);
+    if (token === null) return null;
+
+    return {
+      token,
+      fingerprint: entry.fingerprint,
+      expiresAt: entry.expiresAt ?? null,
+    };
+  }
+
+  async set(cacheKey: string, entry: CachedToken) {
+    const tokens = await this.read();
+    tokens[cacheKey] = {
+      token: await encrypt(entry.token, this.keyring),
+      fingerprint: entry.fingerprint,
+      expiresAt: entry.expiresAt,
+    };
+    await this.write(tokens);
+  }
+
+  async delete(cacheKey: string) {
+    const tokens = await this.read();
+    delete tokens[cacheKey];
+    await this.write(tokens);
+  }
+
+  private async read(): Promise<Record<string, CachedToken>> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+
+  private async write(tokens: Record<string, CachedToken>) {
+    await mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+    await writeFile(this.path, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+  }
+}
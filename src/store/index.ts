@@ -0,0 +1,333 @@
+import {
+  getToken,
+  setToken,
+  deleteToken,
+  getCachedResponse,
+  setCachedResponse,
+  invalidateCachedResponses,
+  insertAuditEntry,
+  queryAuditLog,
+  claimIdempotencyKey,
+  getIdempotencyRecord,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  createConfirmation,
+  consumeConfirmation,
+  getAccountSettings,
+  DEFAULT_ACCOUNT_SETTINGS,
+  getRestaurantSettings,
+  setRestaurantSettings,
+  DEFAULT_RESTAURANT_SETTINGS,
+  type CachedToken,
+  type ResponseCacheKey,
+  type AuditEntry,
+  type AuditRecord,
+  type AuditQuery,
+  type IdempotencyRecord,
+  type Confirmation,
+  type AccountSettings,
+  type RestaurantSettings,
+} from '../db/index.ts';
+import type { Keyring } from '../lib/crypto.ts';
+
+export type {
+  CachedToken,
+  ResponseCacheKey,
+  AuditEntry,
+  AuditRecord,
+  AuditQuery,
+  IdempotencyRecord,
+  Confirmation,
+  AccountSettings,
+  RestaurantSettings,
+};
+
+// Where MeitreAPI caches Meitre session tokens, keyed by account
+export interface TokenStore {
+  get(cacheKey: string): Promise<CachedToken | null>;
+  set(cacheKey: string, entry: CachedToken): Promise<void>;
+  delete(cacheKey: string): Promise<void>;
+}
+
+// Cloudflare D1, encrypted at rest (the Worker's store)
+export class D1TokenStore implements TokenStore {
+  private db: D1Database;
+  private keyring: Keyring;
+
+  constructor(db: D1Database, keyring: Keyring) {
+    this.db = db;
+    this.keyring = keyring;
+  }
+
+  get(cacheKey: string) {
+    return getToken(this.db, cacheKey, this.keyring);
+  }
+
+  set(cacheKey: string, entry: CachedToken) {
+    return setToken(this.db, cacheKey, entry, this.keyring);
+  }
+
+  delete(cacheKey: string) {
+    return deleteToken(this.db, cacheKey);
+  }
+}
+
+// Process-local, lost on restart (tests, stdio without an encryption key)
+export class MemoryTokenStore implements TokenStore {
+  private tokens = new Map<string, CachedToken>();
+
+  async get(cacheKey: string) {
+    return this.tokens.get(cacheKey) ?? null;
+  }
+
+  async set(cacheKey: string, entry: CachedToken) {
+    this.tokens.set(cacheKey, entry);
+  }
+
+  async delete(cacheKey: string) {
+    this.tokens.delete(cacheKey);
+  }
+}
+
+// Where MeitreAPI caches read-only Meitre responses
+export interface ResponseCache {
+  get<T>(key: ResponseCacheKey): Promise<T | null>;
+  // `ttl` in seconds
+  set(key: ResponseCacheKey, value: unknown, ttl: number): Promise<void>;
+  // Drops the entries of every account for a restaurant whose path starts with `pathPrefix`
+  invalidate(restaurant: string, pathPrefix: string): Promise<void>;
+}
+
+export class D1ResponseCache implements ResponseCache {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  get<T>(key: ResponseCacheKey) {
+    return getCachedResponse<T>(this.db, key);
+  }
+
+  set(key: ResponseCacheKey, value: unknown, ttl: number) {
+    return setCachedResponse(this.db, key, value, ttl);
+  }
+
+  invalidate(restaurant: string, pathPrefix: string) {
+    return invalidateCachedResponses(this.db, restaurant, pathPrefix);
+  }
+}
+
+export class MemoryResponseCache implements ResponseCache {
+  private entries = new Map<string, { key: ResponseCacheKey; value: unknown; expiresAt: number }>();
+
+  async get<T>(key: ResponseCacheKey) {
+    const entry = this.entries.get(serializeKey(key));
+    if (!entry || entry.expiresAt <= Date.now()) return null;
+    return entry.value as T;
+  }
+
+  async set(key: ResponseCacheKey, value: unknown, ttl: number) {
+    this.entries.set(serializeKey(key), { key, value, expiresAt: Date.now() + ttl * 1000 });
+  }
+
+  async invalidate(restaurant: string, pathPrefix: string) {
+    for (const [id, entry] of this.entries) {
+      if (entry.key.restaurant === restaurant && entry.key.path.startsWith(pathPrefix)) {
+        this.entries.delete(id);
+      }
+    }
+  }
+}
+
+function serializeKey(key: ResponseCacheKey): string {
+  return JSON.stringify([key.account, key.restaurant, key.path]);
+}
+
+// Where mutating tool calls are recorded
+export interface AuditLog {
+  record(entry: AuditEntry): Promise<void>;
+  // Newest first
+  query(query: AuditQuery): Promise<AuditRecord[]>;
+}
+
+export class D1AuditLog implements AuditLog {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  record(entry: AuditEntry) {
+    return insertAuditEntry(this.db, entry);
+  }
+
+  query(query: AuditQuery) {
+    return queryAuditLog(this.db, query);
+  }
+}
+
+export class MemoryAuditLog implements AuditLog {
+  private records: AuditRecord[] = [];
+
+  async record(entry: AuditEntry) {
+    this.records.push({ ...entry, id: this.records.length + 1, createdAt: Math.floor(Date.now() / 1000) });
+  }
+
+  async query(query: AuditQuery) {
+    return this.records
+      .filter(
+        (r) =>
+          (!query.account || r.account === query.account) &&
+          (!query.restaurant || r.restaurant === query.restaurant) &&
+          (!query.tool || r.tool === query.tool) &&
+          (query.reservationId === undefined || r.reservationId === query.reservationId)
+      )
+      .reverse()
+      .slice(0, query.limit);
+  }
+}
+
+// Where results of mutating tool calls are kept by idempotency key, per account
+export interface IdempotencyStore {
+  // Returns false if the key was already claimed
+  claim(account: string, key: string, tool: string, requestHash: string): Promise<boolean>;
+  get(account: string, key: string): Promise<IdempotencyRecord | null>;
+  complete(account: string, key: string, result: unknown): Promise<void>;
+  // Frees a claimed key whose call failed, so it can be retried
+  release(account: string, key: string): Promise<void>;
+}
+
+export class D1IdempotencyStore implements IdempotencyStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  claim(account: string, key: string, tool: string, requestHash: string) {
+    return claimIdempotencyKey(this.db, account, key, tool, requestHash);
+  }
+
+  get(account: string, key: string) {
+    return getIdempotencyRecord(this.db, account, key);
+  }
+
+  complete(account: string, key: string, result: unknown) {
+    return completeIdempotencyKey(this.db, account, key, result);
+  }
+
+  release(account: string, key: string) {
+    return releaseIdempotencyKey(this.db, account, key);
+  }
+}
+
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  async claim(account: string, key: string, tool: string, requestHash: string) {
+    const id = JSON.stringify([account, key]);
+    if (this.records.has(id)) return false;
+    this.records.set(id, { tool, requestHash, result: null, createdAt: Math.floor(Date.now() / 1000) });
+    return true;
+  }
+
+  async get(account: string, key: string) {
+    return this.records.get(JSON.stringify([account, key])) ?? null;
+  }
+
+  async complete(account: string, key: string, result: unknown) {
+    const record = this.records.get(JSON.stringify([account, key]));
+    if (record) record.result = result;
+  }
+
+  async release(account: string, key: string) {
+    const id = JSON.stringify([account, key]);
+    if (this.records.get(id)?.result === null) this.records.delete(id);
+  }
+}
+
+// Where confirmation tokens of previewed destructive tool calls are kept, by token hash
+export interface ConfirmationStore {
+  create(tokenHash: string, confirmation: Confirmation): Promise<void>;
+  consume(tokenHash: string): Promise<Confirmation | null>;
+}
+
+export class D1ConfirmationStore implements ConfirmationStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  create(tokenHash: string, confirmation: Confirmation) {
+    return createConfirmation(this.db, tokenHash, confirmation);
+  }
+
+  consume(tokenHash: string) {
+    return consumeConfirmation(this.db, tokenHash);
+  }
+}
+
+export class MemoryConfirmationStore implements ConfirmationStore {
+  private confirmations = new Map<string, Confirmation>();
+
+  async create(tokenHash: string, confirmation: Confirmation) {
+    this.confirmations.set(tokenHash, confirmation);
+  }
+
+  async consume(tokenHash: string) {
+    const confirmation = this.confirmations.get(tokenHash) ?? null;
+    this.confirmations.delete(tokenHash);
+    return confirmation;
+  }
+}
+
+// Per-account policy, managed by operators, and per-restaurant booking defaults, managed by each account
+export interface SettingsStore {
+  getAccountSettings(account: string): Promise<AccountSettings>;
+  getRestaurantSettings(account: string, restaurant: string): Promise<RestaurantSettings>;
+  setRestaurantSettings(account: string, restaurant: string, settings: RestaurantSettings): Promise<void>;
+}
+
+export class D1SettingsStore implements SettingsStore {
+  private db: D1Database;
+
+  constructor(db: D1Database) {
+    this.db = db;
+  }
+
+  getAccountSettings(account: string) {
+    return getAccountSettings(this.db, account);
+  }
+
+  getRestaurantSettings(account: string, restaurant: string) {
+    return getRestaurantSettings(this.db, account, restaurant);
+  }
+
+  setRestaurantSettings(account: string, restaurant: string, settings: RestaurantSettings) {
+    return setRestaurantSettings(this.db, account, restaurant, settings);
+  }
+}
+
+// Account settings fixed up front, e.g. from environment variables of the stdio server
+export class MemorySettingsStore implements SettingsStore {
+  private accountSettings: AccountSettings;
+  private restaurantSettings = new Map<string, RestaurantSettings>();
+
+  constructor(accountSettings: Partial<AccountSettings> = {}) {
+    this.accountSettings = { ...DEFAULT_ACCOUNT_SETTINGS, ...accountSettings };
+  }
+
+  async getAccountSettings() {
+    return this.accountSettings;
+  }
+
+  async getRestaurantSettings(account: string, restaurant: string) {
+    return this.restaurantSettings.get(JSON.stringify([account, restaurant])) ?? DEFAULT_RESTAURANT_SETTINGS;
+  }
+
+  async setRestaurantSettings(account: string, restaurant: string, settings: RestaurantSettings) {
+    this.restaurantSettings.set(JSON.stringify([account, restaurant]), settings);
+  }
+}